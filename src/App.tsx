@@ -1,280 +1,179 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { Profiler, useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   Upload, History, FileText, Trash2, Play, BookOpen, Plus, Sparkles,
-  Home, Maximize, Minimize, Star, RotateCcw, HelpCircle, CheckCircle2,
-  ChevronRight, ChevronDown 
+  Home, Maximize, Minimize, Star, RotateCcw, CalendarClock, AlertCircle, X, Download, ArchiveRestore, RefreshCw, List, Network,
+  Keyboard, Layers, ListChecks, ArrowUpDown, BarChart3, SlidersHorizontal, PenLine, FilePlus, GraduationCap, Command, CircleDashed, HelpCircle, Printer,
+  Copy, Pencil, FolderOpen, Undo2, Search, Combine
 } from 'lucide-react';
-
-// --- TYPES & ENUMS ---
-
-enum DifficultyLevel {
-  BASIC = 1,
-  INTERMEDIATE = 2,
-  MASTER = 3
-}
-
-type ViewState = 'dashboard' | 'study';
-
-interface TreeNode {
-  id: string;
-  text: string;
-  children: TreeNode[];
-  isLeaf: boolean;
-  level: number;
-}
-
-interface NodeState {
-  isSolved: boolean;
-  isStarred: boolean;
-  isCollapsed: boolean;
-  hintCount: number;
-}
-
-interface Session {
-  id: string;
-  fileName: string;
-  data: TreeNode;
-  difficulty: DifficultyLevel;
-  nodeStates: Record<string, NodeState>;
-  lastUpdated: number;
-  progress: number;
-}
-
-// --- UTILITIES ---
-
-const STORAGE_KEY = 'promindmap_v1_single';
-
-const generateId = () => Math.random().toString(36).substring(2, 11);
-
-const parseMarkdownToTree = (text: string): TreeNode => {
-  const lines = text.split('\n').filter(line => line.trim().length > 0);
-  if (lines.length === 0) {
-    return { id: 'root', text: 'Empty Tree', children: [], isLeaf: true, level: 0 };
-  }
-
-  const getIndent = (line: string): number => {
-    const match = line.match(/^(\s*)/);
-    return match ? match[1].length : 0;
-  };
-
-  const cleanText = (line: string): string => {
-    return line.trim()
-      .replace(/^[-*+]\s*/, '') 
-      .replace(/^#+\s*/, '')    
-      .trim();
-  };
-
-  const stack: { node: TreeNode; indent: number }[] = [];
-  let root: TreeNode | null = null;
-
-  lines.forEach((line) => {
-    const indent = getIndent(line);
-    const textContent = cleanText(line);
-    
-    const node: TreeNode = {
-      id: generateId(),
-      text: textContent,
-      children: [],
-      isLeaf: true,
-      level: 0
-    };
-
-    if (!root) {
-      root = node;
-      stack.push({ node, indent });
-      return;
-    }
-
-    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
-      stack.pop();
-    }
-
-    if (stack.length > 0) {
-      const parentEntry = stack[stack.length - 1];
-      parentEntry.node.children.push(node);
-      parentEntry.node.isLeaf = false;
-      node.level = stack.length;
-      stack.push({ node, indent });
-    } else {
-      root.children.push(node);
-      root.isLeaf = false;
-      node.level = 1;
-      stack.push({ node, indent });
-    }
-  });
-
-  return root || { id: 'root', text: 'Parsing Error', children: [], isLeaf: true, level: 0 };
-};
-
-// --- COMPONENTS ---
-
-const MindMapNode: React.FC<{
-  node: TreeNode;
-  session: Session;
-  difficulty: DifficultyLevel;
-  onUpdateNode: (nodeId: string, state: Partial<NodeState>) => void;
-  starredOnly: boolean;
-  isRoot?: boolean;
-}> = ({ node, session, difficulty, onUpdateNode, starredOnly, isRoot = false }) => {
-  const nodeState = session.nodeStates[node.id] || { isSolved: false, isStarred: false, isCollapsed: false, hintCount: 0 };
-  const [inputValue, setInputValue] = useState('');
-  const [isError, setIsError] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  const shouldMask = (n: TreeNode) => {
-    if (n.level === 0) return false;
-    if (difficulty === DifficultyLevel.BASIC) return n.isLeaf;
-    if (difficulty === DifficultyLevel.INTERMEDIATE) return n.isLeaf || n.children.some(c => c.isLeaf);
-    if (difficulty === DifficultyLevel.MASTER) return n.level > 0;
-    return false;
-  };
-
-  const isMasked = shouldMask(node) && !nodeState.isSolved;
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setInputValue(e.target.value);
-    setIsError(false);
-  };
-
-  const checkAnswer = () => {
-    const cleanInput = inputValue.replace(/\s+/g, '').toLowerCase();
-    const cleanAnswer = node.text.replace(/\s+/g, '').toLowerCase();
-    
-    if (cleanInput === cleanAnswer) {
-      onUpdateNode(node.id, { isSolved: true });
-      setIsError(false);
-    } else {
-      setIsError(true);
-      setTimeout(() => setIsError(false), 500);
-    }
-  };
-
-  const provideHint = () => {
-    const nextCount = (nodeState.hintCount || 0) + 1;
-    onUpdateNode(node.id, { hintCount: nextCount });
-    
-    if (nextCount === 1) setInputValue(node.text.charAt(0));
-    else if (nextCount === 2) setInputValue(node.text.substring(0, Math.min(3, node.text.length)));
-    else setInputValue(node.text);
-    inputRef.current?.focus();
-  };
-
-  const hasStarredDescendant = (n: TreeNode): boolean => {
-    if (session.nodeStates[n.id]?.isStarred) return true;
-    return n.children.some(c => hasStarredDescendant(c));
-  };
-
-  if (starredOnly && !hasStarredDescendant(node)) return null;
-
-  return (
-    <div className={`flex flex-col mb-4 ${isRoot ? '' : 'ml-10'}`}>
-      <div className="flex items-center group relative">
-        {!isRoot && <div className="absolute -left-10 top-1/2 -translate-y-1/2 w-10 h-0.5 bg-slate-200"></div>}
-
-        <div className={`flex items-center gap-3 p-1.5 rounded-2xl transition-all duration-500 ${isMasked ? 'bg-slate-200/50 pr-3 shadow-inner' : 'bg-transparent'}`}>
-          {node.children.length > 0 && (
-            <button 
-              onClick={() => onUpdateNode(node.id, { isCollapsed: !nodeState.isCollapsed })}
-              className={`p-2 rounded-xl transition-all ${nodeState.isCollapsed ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
-            >
-              {nodeState.isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-            </button>
-          )}
-
-          {isMasked ? (
-            <div className="flex items-center gap-2">
-              <input
-                ref={inputRef}
-                type="text"
-                value={inputValue}
-                onChange={handleInputChange}
-                onKeyDown={(e) => e.key === 'Enter' && checkAnswer()}
-                placeholder="Type to recall..."
-                className={`h-11 px-5 py-2 border-2 rounded-xl outline-none transition-all font-bold w-48 sm:w-64 text-sm ${isError ? 'border-red-400 bg-red-50 text-red-900 shake' : 'border-white focus:border-indigo-400 bg-white shadow-sm focus:shadow-indigo-100'}`}
-              />
-              <button 
-                onClick={provideHint}
-                className="p-2.5 bg-white border border-slate-200 text-slate-400 hover:text-indigo-600 hover:border-indigo-200 rounded-xl transition-all shadow-sm active:scale-95"
-              >
-                <HelpCircle className="w-5 h-5" />
-              </button>
-            </div>
-          ) : (
-            <div className={`flex items-center gap-3 px-5 py-2.5 rounded-2xl transition-all duration-500 ${nodeState.isSolved ? 'bg-green-50 text-green-700 ring-2 ring-green-100' : 'text-slate-700'} ${node.level === 0 ? 'text-2xl font-black text-indigo-900' : 'text-base font-bold'}`}>
-              {nodeState.isSolved && <CheckCircle2 className="w-4 h-4 text-green-500" />}
-              <span className="whitespace-nowrap">{node.text}</span>
-            </div>
-          )}
-
-          <button 
-            onClick={() => onUpdateNode(node.id, { isStarred: !nodeState.isStarred })}
-            className={`p-2 rounded-xl transition-all ${nodeState.isStarred ? 'opacity-100 text-amber-500 scale-110' : 'opacity-0 group-hover:opacity-100 text-slate-300 hover:text-amber-400'}`}
-          >
-            <Star className={`w-5 h-5 ${nodeState.isStarred ? 'fill-amber-500' : ''}`} />
-          </button>
-        </div>
-      </div>
-
-      {!nodeState.isCollapsed && node.children.length > 0 && (
-        <div className="relative border-l-2 border-slate-200 mt-2">
-          {node.children.map((child) => (
-            <MindMapNode key={child.id} node={child} session={session} difficulty={difficulty} onUpdateNode={onUpdateNode} starredOnly={starredOnly} />
-          ))}
-        </div>
-      )}
-    </div>
-  );
-};
+import { Attempt, CanvasLayout, DifficultyLevel, ExamResult, MaskPreset, MaskingPolicy, NodeState, Session, StudyMode, StudyViewMode, TreeNode, TypoTolerance, ViewState } from './types';
+import { ImportError, ImportResult, acceptedExtensions, importMindMap } from './utils/importers';
+import { downloadFile, safeFileName, treeToMarkdown, treeToOpml } from './utils/exporters';
+import { RestorePlan, RestoreMode, applyRestore, exportBackup, exportSession, parseBackup, planRestore } from './utils/backup';
+import { TreeDiff, diffTrees, remapNodeStates } from './utils/treeDiff';
+import { DEFAULT_MATCH_OPTIONS } from './utils/answers';
+import { createAutosave, hasTreeConflict, loadMaskPresets, loadSessions, deleteSessions, mergeSessions, putSessions, saveMaskPresets, subscribeToChanges } from './utils/storage';
+import { countDueNodes, reopenDueNodes } from './utils/scheduler';
+import { describePolicy, maskPredicateForSession, policyForSession } from './utils/masking';
+import { generateId } from './utils/parser';
+import MindMapCanvas from './components/MindMapCanvas';
+import FlashcardQuiz from './components/FlashcardQuiz';
+import MultipleChoiceQuiz from './components/MultipleChoiceQuiz';
+import OrderingQuiz from './components/OrderingQuiz';
+import AnalyticsView from './components/AnalyticsView';
+import MaskingPanel from './components/MaskingPanel';
+import MapEditor from './components/MapEditor';
+import ExamView from './components/ExamView';
+import { appendExam } from './utils/exam';
+import { stripCloze } from './utils/cloze';
+import ShortcutHelp from './components/ShortcutHelp';
+import WorksheetPanel from './components/WorksheetPanel';
+import SessionDetailsForm from './components/SessionDetailsForm';
+import { activeNodeCard } from './utils/treeNavigation';
+import { appendAttempt } from './utils/analytics';
+import { TreeStats, advanceTreeStats, branchProgress, computeTreeStats, policyKeyForSession, statsMatchSession } from './utils/treeStats';
+import { benchmarkSizeFromUrl, createBenchmarkSession, createRenderTimer, isBenchmarkSession } from './utils/benchmark';
+import StudyTree from './components/StudyTree';
+import SearchBox from './components/SearchBox';
+import BranchBreadcrumbs from './components/BranchBreadcrumbs';
+import { NO_FILTERS, ShownNodes, StudyFilters, isOpenNode, updateShownNodes } from './utils/studyFilters';
+import { createNode, findNode, findPath } from './utils/treeEdit';
+import { patchNodeState } from './utils/nodeStateStore';
+import { SESSION_SORT_LABELS, SessionSort, courseNames, duplicateSession, groupByCourse, matchesSessionQuery, sessionTitle, sortSessions, tagNames } from './utils/library';
+import { buildDeck, deckSources, isDeck } from './utils/decks';
+
+const UNDO_DELETE_MS = 8000;
 
 // --- MAIN APP ---
 
 export default function App() {
   const [view, setView] = useState<ViewState>('dashboard');
   const [sessions, setSessions] = useState<Session[]>([]);
+  // Nothing is saved before the stored library is in memory, so an early save cannot overwrite it.
+  const [isLoaded, setIsLoaded] = useState(false);
   const [activeSession, setActiveSession] = useState<Session | null>(null);
-  const [isStarredOnly, setIsStarredOnly] = useState(false);
+  const [filters, setFilters] = useState<StudyFilters>(NO_FILTERS);
   const [globalExpand, setGlobalExpand] = useState(true);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
+  const [worksheetSession, setWorksheetSession] = useState<Session | null>(null);
+  const [markStarred, setMarkStarred] = useState(false);
+  const [librarySearch, setLibrarySearch] = useState('');
+  const [librarySort, setLibrarySort] = useState<SessionSort>('recent');
+  const [detailsEditId, setDetailsEditId] = useState<string | null>(null);
+  const [deletedSession, setDeletedSession] = useState<{ session: Session; index: number } | null>(null);
+  const [deckSelection, setDeckSelection] = useState<string[]>([]);
+  const [analyticsScope, setAnalyticsScope] = useState('all');
+  const [pendingRestore, setPendingRestore] = useState<RestorePlan | null>(null);
+  const [updateTargetId, setUpdateTargetId] = useState<string | null>(null);
+  const [pendingUpdate, setPendingUpdate] = useState<{ sessionId: string; fileName: string; tree: TreeNode; diff: TreeDiff } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const updateInputRef = useRef<HTMLInputElement>(null);
+  const [maskPresets, setMaskPresets] = useState<MaskPreset[]>([]);
+  const [showMaskingPanel, setShowMaskingPanel] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  // Branch studied on its own; not saved, so reopening a map shows all of it.
+  const [focusBranchId, setFocusBranchId] = useState<string | null>(null);
+  const [jumpTarget, setJumpTarget] = useState<{ nodeId: string } | null>(null);
+  const studyScrollRef = useRef<HTMLElement>(null);
+  const statsRef = useRef<TreeStats | null>(null);
+  const shownRef = useRef<ShownNodes | null>(null);
+  // The open session as last rendered, and the stored copy it was last synced with.
+  const activeRef = useRef<Session | null>(null);
+  const syncBaseRef = useRef<Session | null>(null);
+  const [autosave] = useState(() => createAutosave());
+  const [benchmarkSize] = useState(() => benchmarkSizeFromUrl(window.location.search));
+  const [renderTimer] = useState(createRenderTimer);
 
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try { setSessions(JSON.parse(saved)); } catch (e) { console.error(e); }
-    }
-  }, []);
-
+    loadSessions().then(list => {
+      setSessions(list);
+      if (!benchmarkSize) return;
+      // Built afresh on every load and kept out of the library, so each run starts from the same state.
+      setActiveSession(createBenchmarkSession(benchmarkSize));
+      setView('study');
+    }).catch(console.error).finally(() => setIsLoaded(true));
+    loadMaskPresets().then(setMaskPresets).catch(console.error);
+  }, [benchmarkSize]);
+
+  // Writes the sessions that changed; removing one goes through deleteSession.
   const saveSessions = (updated: Session[]) => {
+    if (!isLoaded) {
+      console.error('Sessions are still loading; the change was not saved.');
+      return;
+    }
     setSessions(updated);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    putSessions(updated.filter(s => !sessions.includes(s))).catch(console.error);
   };
 
-  const calculateRequiredNodes = useCallback((node: TreeNode, level: DifficultyLevel): number => {
-    let count = 0;
-    const shouldMaskNode = (n: TreeNode) => {
-      if (n.level === 0) return false;
-      if (level === DifficultyLevel.BASIC) return n.isLeaf;
-      if (level === DifficultyLevel.INTERMEDIATE) return n.isLeaf || n.children.some(c => c.isLeaf);
-      return n.level > 0;
-    };
-    if (shouldMaskNode(node)) count++;
-    node.children.forEach(c => count += calculateRequiredNodes(c, level));
-    return count;
+  // Progress only counts the nodes the active masking policy hides. The open
+  // session's comes from the live stats and is stored when it is saved.
+  const withProgress = useCallback((session: Session): Session => {
+    const { progress } = statsMatchSession(statsRef.current, session) ? statsRef.current : computeTreeStats(session);
+    return session.progress === progress ? session : { ...session, progress };
   }, []);
 
-  const updateProgress = useCallback((sessionData: Session) => {
-    const totalRequired = calculateRequiredNodes(sessionData.data, sessionData.difficulty);
-    const solvedCount = Object.values(sessionData.nodeStates).filter(s => s.isSolved).length;
-    sessionData.progress = Math.min(100, Math.round((solvedCount / Math.max(1, totalRequired)) * 100));
-    return sessionData;
-  }, [calculateRequiredNodes]);
+  // A combined deck is saved into the sessions it was built from.
+  useEffect(() => {
+    if (!activeSession || isBenchmarkSession(activeSession)) return;
+    (isDeck(activeSession) ? deckSources(activeSession, sessions) : [activeSession]).map(withProgress).forEach(autosave.schedule);
+  }, [activeSession, sessions, autosave, withProgress]);
+
+  // The undo bar for a deleted session stays up for a few seconds.
+  useEffect(() => {
+    if (!deletedSession) return;
+    const timer = setTimeout(() => setDeletedSession(null), UNDO_DELETE_MS);
+    return () => clearTimeout(timer);
+  }, [deletedSession]);
+
+  useEffect(() => {
+    const flush = () => autosave.flush();
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [autosave]);
+
+  // Another tab saved: refresh the list and fold its changes into the open session, so the next save keeps them.
+  useEffect(() => subscribeToChanges(() => {
+    loadSessions().then(list => {
+      setSessions(list);
+      const open = activeRef.current;
+      const remote = open && list.find(s => s.id === open.id);
+      if (!open || !remote) return;
+      const base = syncBaseRef.current?.id === open.id ? syncBaseRef.current : open;
+      const takeRemoteTree = hasTreeConflict(open, remote, base)
+        && confirm('This map was edited in another tab too. Load the outline from that tab? Cancel keeps this tab\'s outline and saves it over the other.');
+      syncBaseRef.current = remote;
+      setActiveSession(current => current && current.id === remote.id ? mergeSessions(current, remote, base, takeRemoteTree) : current);
+    }).catch(console.error);
+  }), []);
 
   const handleUpload = (content: string, fileName: string) => {
-    const tree = parseMarkdownToTree(content);
+    if (!isLoaded) return;
+    let result: ImportResult;
+    try {
+      result = importMindMap(content, fileName);
+    } catch (e) {
+      if (!(e instanceof ImportError)) throw e;
+      setImportError(`${fileName}: ${e.message}`);
+      return;
+    }
+    setImportError(null);
+    setImportWarnings(result.warnings);
     const newSession: Session = {
       id: Date.now().toString(),
       fileName: fileName || "New Mind Map",
-      data: tree,
+      data: result.tree,
       difficulty: DifficultyLevel.BASIC,
       nodeStates: {},
       lastUpdated: Date.now(),
@@ -283,32 +182,189 @@ export default function App() {
     const updated = [newSession, ...sessions];
     saveSessions(updated);
     setActiveSession(newSession);
+    setIsEditing(false);
     setView('study');
   };
 
-  const handleNodeUpdate = (nodeId: string, stateUpdate: Partial<NodeState>) => {
+  const createNewMap = () => {
+    if (!isLoaded) return;
+    const newSession: Session = {
+      id: Date.now().toString(),
+      fileName: "Untitled Map",
+      data: createNode("Untitled Map"),
+      difficulty: DifficultyLevel.BASIC,
+      nodeStates: {},
+      lastUpdated: Date.now(),
+      progress: 0
+    };
+    saveSessions([newSession, ...sessions]);
+    setActiveSession(newSession);
+    setIsEditing(true);
+    setView('study');
+  };
+
+  const handleTreeEdit = (data: TreeNode, nodeStates: Record<string, NodeState>) => {
     if (!activeSession) return;
-    const nextNodeStates = nodeId ? {
-      ...activeSession.nodeStates,
-      [nodeId]: {
-        ...(activeSession.nodeStates[nodeId] || { isSolved: false, isStarred: false, isCollapsed: false, hintCount: 0 }),
-        ...stateUpdate
-      }
-    } : {}; // Handle reset if nodeId is empty
-
-    const nextSession = {
-      ...activeSession,
-      nodeStates: nodeId ? nextNodeStates : {},
+    setActiveSession({ ...activeSession, data, nodeStates, lastUpdated: Date.now() });
+  };
+
+  // Functional and stable, so memoised rows can hold on to it. The stats catch up when the update renders.
+  const handleNodeUpdate = useCallback((nodeId: string, stateUpdate: Partial<NodeState>) => {
+    setActiveSession(current => current && {
+      ...current,
+      nodeStates: { ...current.nodeStates, [nodeId]: patchNodeState(current.nodeStates[nodeId], stateUpdate) },
       lastUpdated: Date.now()
-    };
-    const finalSession = updateProgress(nextSession);
-    setActiveSession(finalSession);
+    });
+  }, []);
+
+  // Functional update: attempts are logged right after the node update of the same answer.
+  const handleAttempt = useCallback((attempt: Attempt) => {
+    setActiveSession(current => current && { ...current, attempts: appendAttempt(current.attempts, attempt) });
+    setAnnouncement(`${attempt.correct ? (attempt.close ? 'Accepted as close' : 'Correct') : 'Incorrect'}: ${attempt.answer}`);
+  }, []);
+
+  // Exams are graded separately from practice, so node states and schedules stay untouched.
+  const handleExamFinish = (exam: ExamResult, attempts: Attempt[]) => {
+    setActiveSession(current => current && {
+      ...current,
+      exams: appendExam(current.exams, exam),
+      attempts: attempts.reduce(appendAttempt, current.attempts || []),
+      lastUpdated: Date.now()
+    });
+  };
+
+  // Stars and review schedules survive a reset; schedules can be cleared too. States are
+  // reset rather than dropped, so another tab's older progress cannot merge back in.
+  const resetProgress = (clearSchedule: boolean) => {
+    if (!activeSession) return;
+    const reset: Partial<NodeState> = { isSolved: false, solvedWith: undefined, solvedBlanks: undefined, isCollapsed: false, hintCount: 0 };
+    if (clearSchedule) reset.schedule = undefined;
+    const nextNodeStates: Record<string, NodeState> = {};
+    Object.entries(activeSession.nodeStates).forEach(([id, state]) => {
+      nextNodeStates[id] = patchNodeState(state, reset);
+    });
+    const nextSession = { ...activeSession, nodeStates: nextNodeStates, lastUpdated: Date.now() };
+    setActiveSession(nextSession);
+  };
+
+  const confirmReset = () => {
+    if (confirm("Reset progress?")) resetProgress(confirm("Also clear review schedules?"));
+  };
+
+  const openSession = (session: Session) => {
+    const next = { ...session, nodeStates: reopenDueNodes(session.nodeStates) };
+    setActiveSession(next);
+    setIsEditing(false);
+    setFocusBranchId(null);
+    setView('study');
+  };
+
+  const focusBranch = (nodeId: string | null) => {
+    setFocusBranchId(nodeId);
+    setJumpTarget(null);
+  };
+
+  // A search pick leaves a focused branch or filter that hides the node, then expands its ancestors.
+  const jumpToNode = (nodeId: string) => {
+    if (!activeSession) return;
+    const path = findPath(activeSession.data, nodeId);
+    if (!path) return;
+    if (focusBranchId && !path.some(n => n.id === focusBranchId)) setFocusBranchId(null);
+    if (isShown && !isShown(path[path.length - 1])) setFilters(NO_FILTERS);
+    path.slice(0, -1).forEach(n => {
+      if (activeSession.nodeStates[n.id]?.isCollapsed) handleNodeUpdate(n.id, { isCollapsed: false });
+    });
+    setJumpTarget({ nodeId });
   };
 
   const setDifficulty = (level: DifficultyLevel) => {
     if (!activeSession) return;
-    const next = { ...activeSession, difficulty: level };
-    setActiveSession(updateProgress(next));
+    const next = { ...activeSession, difficulty: level, maskingPolicy: undefined, maskPresetId: undefined, deckPolicies: undefined };
+    setActiveSession(next);
+  };
+
+  // Study-view shortcuts; Alt combinations also work while typing in a recall input.
+  // Read through a ref, so the listener is added once per visit to the study view.
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutRef.current = (e: KeyboardEvent) => {
+    const typing = (e.target as HTMLElement).matches('input, textarea, select');
+    if (e.key === '?' && !typing) {
+      e.preventDefault();
+      setShowShortcuts(true);
+      return;
+    }
+    if (e.key === '/' && !typing) {
+      const search = document.querySelector<HTMLElement>('[data-search-input]');
+      if (!search) return;
+      e.preventDefault();
+      search.focus();
+      return;
+    }
+    if (!e.altKey || e.ctrlKey || e.metaKey) return;
+    const actions: Record<string, () => void> = {
+      KeyH: () => activeNodeCard()?.querySelector<HTMLElement>('[data-action="hint"]')?.click(),
+      KeyS: () => activeNodeCard()?.querySelector<HTMLElement>('[data-action="star"]')?.click(),
+      KeyF: () => activeNodeCard()?.querySelector<HTMLElement>('[data-action="focus-branch"]')?.click(),
+      KeyR: confirmReset,
+      Digit1: () => setDifficulty(DifficultyLevel.BASIC),
+      Digit2: () => setDifficulty(DifficultyLevel.INTERMEDIATE),
+      Digit3: () => setDifficulty(DifficultyLevel.MASTER)
+    };
+    if (!actions[e.code]) return;
+    e.preventDefault();
+    actions[e.code]();
+  };
+
+  useEffect(() => {
+    if (view !== 'study' || isEditing) return;
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [view, isEditing]);
+
+  const applyMaskingPolicy = (maskingPolicy: MaskingPolicy, maskPresetId?: string) => {
+    if (!activeSession) return;
+    setActiveSession({ ...activeSession, maskingPolicy, maskPresetId, deckPolicies: undefined });
+    setShowMaskingPanel(false);
+  };
+
+  const saveMaskPreset = (name: string, policy: MaskingPolicy) => {
+    const preset: MaskPreset = { id: generateId(), name, policy };
+    const updated = [...maskPresets, preset];
+    setMaskPresets(updated);
+    saveMaskPresets(updated).catch(console.error);
+    applyMaskingPolicy(policy, preset.id);
+  };
+
+  const deleteMaskPreset = (id: string) => {
+    const updated = maskPresets.filter(p => p.id !== id);
+    setMaskPresets(updated);
+    saveMaskPresets(updated).catch(console.error);
+  };
+
+  // A pending jump belongs to the view it was made in.
+  const setStudyMode = (studyMode: StudyMode) => {
+    if (!activeSession) return;
+    setJumpTarget(null);
+    setActiveSession({ ...activeSession, studyMode });
+  };
+
+  const setViewMode = (viewMode: StudyViewMode) => {
+    if (!activeSession) return;
+    setJumpTarget(null);
+    setActiveSession({ ...activeSession, viewMode });
+  };
+
+  const setCanvasLayout = (canvasLayout: CanvasLayout) => {
+    if (!activeSession) return;
+    setActiveSession({ ...activeSession, canvasLayout });
+  };
+
+  const cycleTypoTolerance = () => {
+    if (!activeSession) return;
+    const order: TypoTolerance[] = ['off', 'normal', 'lenient'];
+    const current = activeSession.typoTolerance ?? DEFAULT_MATCH_OPTIONS.typoTolerance;
+    setActiveSession({ ...activeSession, typoTolerance: order[(order.indexOf(current) + 1) % order.length] });
   };
 
   const toggleGlobalExpand = () => {
@@ -317,8 +373,7 @@ export default function App() {
     setGlobalExpand(newState);
     const newNodeStates = { ...activeSession.nodeStates };
     const traverse = (node: TreeNode) => {
-      const currentState = newNodeStates[node.id] || { isSolved: false, isStarred: false, isCollapsed: false, hintCount: 0 };
-      newNodeStates[node.id] = { ...currentState, isCollapsed: !newState };
+      newNodeStates[node.id] = patchNodeState(newNodeStates[node.id], { isCollapsed: !newState });
       node.children.forEach(traverse);
     };
     traverse(activeSession.data);
@@ -326,16 +381,201 @@ export default function App() {
   };
 
   const handleSaveAndExit = () => {
+    autosave.flush();
     if (activeSession) {
-      const updatedList = sessions.map(s => s.id === activeSession.id ? activeSession : s);
-      saveSessions(updatedList);
+      const saved = (isDeck(activeSession) ? deckSources(activeSession, sessions) : [activeSession]).map(withProgress);
+      saveSessions(sessions.map(s => saved.find(u => u.id === s.id) ?? s));
     }
     setActiveSession(null);
+    setFocusBranchId(null);
+    setImportWarnings([]);
     setView('dashboard');
   };
 
+  const handleExport = (session: Session, format: 'md' | 'opml' | 'json') => {
+    const name = safeFileName(session.fileName);
+    const options = { nodeStates: session.nodeStates, markStarred };
+    if (format === 'md') downloadFile(treeToMarkdown(session.data, options), `${name}.md`, 'text/markdown');
+    else if (format === 'opml') downloadFile(treeToOpml(session.data, options), `${name}.opml`, 'text/x-opml');
+    else downloadFile(exportSession(session), `${name}.promindmap.json`, 'application/json');
+    setExportMenuId(null);
+  };
+
+  const saveSessionDetails = (sessionId: string, details: Pick<Session, 'title' | 'course' | 'tags'>) => {
+    saveSessions(sessions.map(s => s.id === sessionId ? { ...s, ...details } : s));
+    setDetailsEditId(null);
+  };
+
+  const duplicate = (session: Session) => {
+    const copy = duplicateSession(session, Date.now().toString());
+    saveSessions(sessions.flatMap(s => s.id === session.id ? [s, copy] : [s]));
+  };
+
+  // Deleted at once; the undo bar puts the session back in its old place.
+  const deleteSession = (session: Session) => {
+    setDeletedSession({ session, index: sessions.indexOf(session) });
+    setDeckSelection(ids => ids.filter(id => id !== session.id));
+    setSessions(sessions.filter(s => s.id !== session.id));
+    deleteSessions([session.id]).catch(console.error);
+  };
+
+  const undoDelete = () => {
+    if (!deletedSession) return;
+    const restored = [...sessions];
+    restored.splice(deletedSession.index, 0, deletedSession.session);
+    saveSessions(restored);
+    setDeletedSession(null);
+  };
+
+  const toggleDeckSelection = (sessionId: string) => {
+    setDeckSelection(ids => ids.includes(sessionId) ? ids.filter(id => id !== sessionId) : [...ids, sessionId]);
+  };
+
+  const openDeck = () => {
+    const sources = sessions.filter(s => deckSelection.includes(s.id));
+    if (sources.length < 2) return;
+    setDeckSelection([]);
+    openSession(buildDeck(sources));
+  };
+
+  const handleBackup = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(exportBackup(sessions), `promindmap-backup-${date}.json`, 'application/json');
+  };
+
+  const handleRestoreFile = (content: string, fileName: string) => {
+    try {
+      const incoming = parseBackup(content);
+      setPendingRestore(planRestore(incoming, sessions));
+      setImportError(null);
+    } catch (e) {
+      if (!(e instanceof ImportError)) throw e;
+      setImportError(`${fileName}: ${e.message}`);
+    }
+  };
+
+  const confirmRestore = (mode: RestoreMode) => {
+    if (!pendingRestore) return;
+    saveSessions(applyRestore(sessions, pendingRestore.sessions, mode));
+    setPendingRestore(null);
+  };
+
+  const handleUpdateFile = (content: string, fileName: string) => {
+    const target = sessions.find(s => s.id === updateTargetId);
+    setUpdateTargetId(null);
+    if (!target) return;
+    try {
+      const { tree } = importMindMap(content, fileName);
+      setPendingUpdate({ sessionId: target.id, fileName, tree, diff: diffTrees(target.data, tree) });
+      setImportError(null);
+    } catch (e) {
+      if (!(e instanceof ImportError)) throw e;
+      setImportError(`${fileName}: ${e.message}`);
+    }
+  };
+
+  const confirmUpdate = () => {
+    if (!pendingUpdate) return;
+    const { sessionId, tree, diff } = pendingUpdate;
+    const oldToNew: Record<string, string> = {};
+    Object.entries(diff.idMap).forEach(([newId, oldId]) => { oldToNew[oldId] = newId; });
+    saveSessions(sessions.map(s => s.id === sessionId
+      ? withProgress({
+        ...s,
+        data: tree,
+        nodeStates: remapNodeStates(s.nodeStates, diff.idMap),
+        attempts: s.attempts?.map(a => ({ ...a, nodeId: oldToNew[a.nodeId] ?? a.nodeId })),
+        maskingPolicy: s.maskingPolicy?.subtreeId
+          ? { ...s.maskingPolicy, subtreeId: oldToNew[s.maskingPolicy.subtreeId] ?? s.maskingPolicy.subtreeId }
+          : s.maskingPolicy,
+        lastUpdated: Date.now()
+      })
+      : s));
+    setPendingUpdate(null);
+  };
+
+  const openAnalytics = (scopeId: string) => {
+    setAnalyticsScope(scopeId);
+    setView('analytics');
+  };
+
+  const starNodes = (nodes: { sessionId: string; nodeId: string }[]) => {
+    saveSessions(sessions.map(s => {
+      const ids = nodes.filter(n => n.sessionId === s.id).map(n => n.nodeId);
+      if (ids.length === 0) return s;
+      const nodeStates = { ...s.nodeStates };
+      ids.forEach(id => {
+        nodeStates[id] = patchNodeState(nodeStates[id], { isStarred: true });
+      });
+      // A starred-only policy masks more nodes now.
+      return withProgress({ ...s, nodeStates, lastUpdated: Date.now() });
+    }));
+  };
+
+  // Only recounted when the saved list changes, not on every answer in the study view.
+  const dueCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    sessions.forEach(s => {
+      counts[s.id] = countDueNodes(s.data, s.nodeStates, maskPredicateForSession(s));
+    });
+    return counts;
+  }, [sessions]);
+  const reviewQueue = sessions.filter(s => dueCounts[s.id] > 0).sort((a, b) => dueCounts[b.id] - dueCounts[a.id]);
+  const totalDue = reviewQueue.reduce((sum, s) => sum + dueCounts[s.id], 0);
+
+  const courses = courseNames(sessions);
+  const tags = tagNames(sessions);
+  const sessionGroups = groupByCourse(sortSessions(sessions.filter(s => matchesSessionQuery(s, librarySearch)), librarySort, dueCounts));
+
+  const sessionRow = (session: Session) => (
+    <div key={session.id} className="p-8 hover:bg-slate-50 transition-colors">
+      <div className="flex items-center justify-between gap-4">
+        <input type="checkbox" checked={deckSelection.includes(session.id)} onChange={() => toggleDeckSelection(session.id)} aria-label={`Add ${sessionTitle(session)} to a combined deck`} title="Select to study together" className="w-4 h-4 accent-indigo-600 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-bold text-slate-800 truncate">{sessionTitle(session)}</h3>
+          {session.title && <p className="text-xs font-semibold text-slate-400 truncate">{session.fileName}</p>}
+          <div className="flex items-center gap-4 mt-2">
+            <div className="bg-green-50 text-green-700 px-2 py-0.5 rounded text-xs font-bold">{session.progress}% Complete</div>
+            <span className="text-xs text-slate-400 uppercase font-black">{session.maskingPolicy ? 'Custom' : `Lvl ${session.difficulty}`}</span>
+            {dueCounts[session.id] > 0 && (
+              <div className="bg-amber-50 text-amber-700 px-2 py-0.5 rounded text-xs font-bold">{dueCounts[session.id]} Due</div>
+            )}
+            {session.tags?.map(tag => (
+              <button key={tag} onClick={() => setLibrarySearch(`#${tag}`)} className="text-xs font-bold text-slate-400 hover:text-indigo-600">#{tag}</button>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setDetailsEditId(detailsEditId === session.id ? null : session.id)} title="Rename, course and tags" className={`p-3 rounded-2xl transition-all ${detailsEditId === session.id ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}><Pencil className="w-5 h-5" /></button>
+          <button onClick={() => duplicate(session)} title="Duplicate without progress" className="p-3 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-2xl transition-all"><Copy className="w-5 h-5" /></button>
+          <button onClick={() => { setUpdateTargetId(session.id); updateInputRef.current?.click(); }} title="Update from file" className="p-3 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-2xl transition-all"><RefreshCw className="w-5 h-5" /></button>
+          <button onClick={() => openAnalytics(session.id)} title="Analytics" className="p-3 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-2xl transition-all"><BarChart3 className="w-5 h-5" /></button>
+          <button onClick={() => setExportMenuId(exportMenuId === session.id ? null : session.id)} className={`p-3 rounded-2xl transition-all ${exportMenuId === session.id ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}><Download className="w-5 h-5" /></button>
+          <button onClick={() => deleteSession(session)} title="Delete" className="p-3 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-2xl transition-all"><Trash2 className="w-5 h-5" /></button>
+          <button onClick={() => openSession(session)} className="flex items-center gap-2 bg-indigo-600 text-white px-6 py-3 rounded-2xl font-bold hover:bg-indigo-700 shadow-lg shadow-indigo-100"><Play className="w-4 h-4" />Practice</button>
+        </div>
+      </div>
+      {detailsEditId === session.id && (
+        <SessionDetailsForm session={session} courses={courses} onSave={(details) => saveSessionDetails(session.id, details)} onCancel={() => setDetailsEditId(null)} />
+      )}
+      {exportMenuId === session.id && (
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          <button onClick={() => handleExport(session, 'md')} className="px-3 py-1.5 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:border-indigo-300">Markdown</button>
+          <button onClick={() => handleExport(session, 'opml')} className="px-3 py-1.5 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:border-indigo-300">OPML</button>
+          <button onClick={() => handleExport(session, 'json')} className="px-3 py-1.5 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:border-indigo-300">Session + Progress (.json)</button>
+          <button onClick={() => setWorksheetSession(session)} className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:border-indigo-300"><Printer className="w-3.5 h-3.5" />Worksheet</button>
+          <label className="flex items-center gap-2 ml-2 text-xs font-bold text-slate-500">
+            <input type="checkbox" checked={markStarred} onChange={(e) => setMarkStarred(e.target.checked)} />
+            Mark starred
+          </label>
+        </div>
+      )}
+    </div>
+  );
+
   const dashboardView = (
     <div className="max-w-6xl mx-auto px-6 py-12">
+      {worksheetSession && <WorksheetPanel session={worksheetSession} onClose={() => setWorksheetSession(null)} />}
       <header className="flex flex-col md:flex-row md:items-center justify-between gap-6 mb-12">
         <div>
           <h1 className="text-4xl font-extrabold text-slate-900 tracking-tight flex items-center gap-3">
@@ -360,59 +600,199 @@ export default function App() {
     CLT
       Interaction
       Fluency`, "Demo: English Theory")}
-          className="flex items-center gap-2 bg-white border border-slate-200 px-5 py-2.5 rounded-xl text-slate-700 font-semibold hover:bg-slate-50 transition-all shadow-sm group"
+          disabled={!isLoaded}
+          className="flex items-center gap-2 bg-white border border-slate-200 px-5 py-2.5 rounded-xl text-slate-700 font-semibold hover:bg-slate-50 transition-all shadow-sm group disabled:opacity-40"
         >
           <Sparkles className="w-4 h-4 text-amber-500 group-hover:scale-110" />
           Load Demo
         </button>
+        <div className="flex gap-2">
+          <button onClick={createNewMap} disabled={!isLoaded} className="flex items-center gap-2 bg-white border border-slate-200 px-5 py-2.5 rounded-xl text-slate-700 font-semibold hover:bg-slate-50 transition-all shadow-sm disabled:opacity-40">
+            <FilePlus className="w-4 h-4 text-slate-400" />
+            New Map
+          </button>
+          <button onClick={() => openAnalytics('all')} className="flex items-center gap-2 bg-white border border-slate-200 px-5 py-2.5 rounded-xl text-slate-700 font-semibold hover:bg-slate-50 transition-all shadow-sm">
+            <BarChart3 className="w-4 h-4 text-slate-400" />
+            Analytics
+          </button>
+          <button onClick={handleBackup} disabled={sessions.length === 0} className="flex items-center gap-2 bg-white border border-slate-200 px-5 py-2.5 rounded-xl text-slate-700 font-semibold hover:bg-slate-50 transition-all shadow-sm disabled:opacity-40">
+            <Download className="w-4 h-4 text-slate-400" />
+            Backup
+          </button>
+          <button onClick={() => restoreInputRef.current?.click()} disabled={!isLoaded} className="flex items-center gap-2 bg-white border border-slate-200 px-5 py-2.5 rounded-xl text-slate-700 font-semibold hover:bg-slate-50 transition-all shadow-sm disabled:opacity-40">
+            <ArchiveRestore className="w-4 h-4 text-slate-400" />
+            Restore
+          </button>
+          <input type="file" ref={restoreInputRef} className="hidden" accept=".json" onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              const reader = new FileReader();
+              reader.onload = (ev) => handleRestoreFile(ev.target?.result as string, file.name);
+              reader.onerror = () => setImportError(`${file.name}: The file could not be read.`);
+              reader.readAsText(file);
+            }
+            e.target.value = '';
+          }} />
+          <input type="file" ref={updateInputRef} className="hidden" accept={acceptedExtensions()} onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              const reader = new FileReader();
+              reader.onload = (ev) => handleUpdateFile(ev.target?.result as string, file.name);
+              reader.onerror = () => setImportError(`${file.name}: The file could not be read.`);
+              reader.readAsText(file);
+            }
+            e.target.value = '';
+          }} />
+        </div>
       </header>
 
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
         <div className="lg:col-span-4 space-y-6">
           <div 
-            onClick={() => fileInputRef.current?.click()}
+            onClick={() => isLoaded && fileInputRef.current?.click()}
             className="cursor-pointer group flex flex-col items-center justify-center p-10 border-2 border-dashed border-slate-300 bg-white hover:border-indigo-400 hover:bg-slate-50 rounded-3xl transition-all"
           >
             <div className="w-20 h-20 rounded-2xl bg-slate-100 text-slate-400 group-hover:bg-indigo-100 group-hover:text-indigo-600 flex items-center justify-center mb-6 transition-all">
               <Plus className="w-10 h-10" />
             </div>
             <h3 className="text-xl font-bold text-slate-800">Upload File</h3>
-            <p className="text-sm text-slate-500 text-center mt-2 px-4">Markdown or Indented Text (.md, .txt)</p>
-            <input type="file" ref={fileInputRef} className="hidden" accept=".md,.txt" onChange={(e) => {
+            <p className="text-sm text-slate-500 text-center mt-2 px-4">Markdown, OPML, FreeMind, XMind or JSON ({acceptedExtensions()})</p>
+            <input type="file" ref={fileInputRef} className="hidden" accept={acceptedExtensions()} onChange={(e) => {
               const file = e.target.files?.[0];
               if (file) {
                 const reader = new FileReader();
                 reader.onload = (ev) => handleUpload(ev.target?.result as string, file.name);
+                reader.onerror = () => setImportError(`${file.name}: The file could not be read.`);
                 reader.readAsText(file);
               }
+              e.target.value = '';
             }} />
           </div>
-        </div>
 
-        <div className="lg:col-span-8">
+          {pendingRestore && (
+            <div className="p-5 bg-white border border-indigo-200 rounded-2xl text-sm shadow-sm">
+              <p className="font-bold text-slate-800">Restore {pendingRestore.sessions.length} session(s)?</p>
+              <p className="text-slate-500 mt-1">
+                {pendingRestore.duplicateIds.length > 0
+                  ? `${pendingRestore.duplicateIds.length} already exist on this device. Merge keeps the most recently studied copy; Replace overwrites them with the file's copy.`
+                  : 'None of them exist on this device yet.'}
+              </p>
+              <div className="flex gap-2 mt-4">
+                <button onClick={() => confirmRestore('merge')} className="bg-indigo-600 text-white px-4 py-2 rounded-xl font-bold hover:bg-indigo-700">Merge</button>
+                {pendingRestore.duplicateIds.length > 0 && (
+                  <button onClick={() => confirmRestore('replace')} className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl font-bold hover:bg-slate-50">Replace</button>
+                )}
+                <button onClick={() => setPendingRestore(null)} className="px-4 py-2 text-slate-400 font-bold hover:text-slate-600">Cancel</button>
+              </div>
+            </div>
+          )}
+
+          {pendingUpdate && (
+            <div className="p-5 bg-white border border-indigo-200 rounded-2xl text-sm shadow-sm">
+              <p className="font-bold text-slate-800">Update from {pendingUpdate.fileName}?</p>
+              <p className="text-slate-500 mt-1">Progress is kept for matched nodes; removed nodes lose theirs.</p>
+              <ul className="mt-3 space-y-1">
+                {([
+                  ['Added', 'text-green-600', pendingUpdate.diff.added.map(n => n.text)],
+                  ['Removed', 'text-red-600', pendingUpdate.diff.removed.map(n => n.text)],
+                  ['Renamed', 'text-indigo-600', pendingUpdate.diff.renamed.map(c => `${c.from.text} → ${c.to.text}`)],
+                  ['Moved', 'text-amber-600', pendingUpdate.diff.moved.map(c => c.to.text)]
+                ] as [string, string, string[]][]).map(([label, color, items]) => (
+                  <li key={label} className="text-slate-600">
+                    <span className={`font-black ${color}`}>{label} {items.length}</span>
+                    {items.length > 0 && <span className="text-slate-400"> · {items.slice(0, 5).join(', ')}{items.length > 5 ? ', …' : ''}</span>}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-2 mt-4">
+                <button onClick={confirmUpdate} className="bg-indigo-600 text-white px-4 py-2 rounded-xl font-bold hover:bg-indigo-700">Update</button>
+                <button onClick={() => setPendingUpdate(null)} className="px-4 py-2 text-slate-400 font-bold hover:text-slate-600">Cancel</button>
+              </div>
+            </div>
+          )}
+
+          {importError && (
+            <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 text-red-700 rounded-2xl text-sm font-semibold">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <span className="flex-1 break-words">{importError}</span>
+              <button onClick={() => setImportError(null)} className="text-red-400 hover:text-red-600"><X className="w-4 h-4" /></button>
+            </div>
+          )}
+
           <div className="bg-white rounded-3xl border border-slate-200 overflow-hidden shadow-sm">
-            <div className="px-8 py-6 border-b border-slate-100 bg-slate-50/50">
-              <h2 className="font-bold text-xl text-slate-800 flex items-center gap-3"><History className="w-5 h-5 text-slate-400" />History</h2>
+            <div className="px-6 py-5 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+              <h2 className="font-bold text-lg text-slate-800 flex items-center gap-3"><CalendarClock className="w-5 h-5 text-slate-400" />Review due</h2>
+              <span className="bg-amber-50 text-amber-700 px-2 py-0.5 rounded text-xs font-bold">{totalDue}</span>
             </div>
             <div className="divide-y divide-slate-100">
-              {sessions.map((session) => (
-                <div key={session.id} className="p-8 hover:bg-slate-50 transition-colors flex items-center justify-between gap-4">
-                  <div className="flex-1 min-w-0">
-                    <h3 className="text-lg font-bold text-slate-800 truncate">{session.fileName}</h3>
-                    <div className="flex items-center gap-4 mt-2">
-                      <div className="bg-green-50 text-green-700 px-2 py-0.5 rounded text-xs font-bold">{session.progress}% Complete</div>
-                      <span className="text-xs text-slate-400 uppercase font-black">Lvl {session.difficulty}</span>
-                    </div>
-                  </div>
-                  <div className="flex gap-2">
-                    <button onClick={() => saveSessions(sessions.filter(s => s.id !== session.id))} className="p-3 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-2xl transition-all"><Trash2 className="w-5 h-5" /></button>
-                    <button onClick={() => { setActiveSession(session); setView('study'); }} className="flex items-center gap-2 bg-indigo-600 text-white px-6 py-3 rounded-2xl font-bold hover:bg-indigo-700 shadow-lg shadow-indigo-100"><Play className="w-4 h-4" />Practice</button>
+              {reviewQueue.map((session) => (
+                <button key={session.id} onClick={() => openSession(session)} className="w-full px-6 py-4 flex items-center justify-between gap-4 text-left hover:bg-slate-50 transition-colors">
+                  <span className="font-bold text-slate-700 truncate">{sessionTitle(session)}</span>
+                  <span className="text-xs font-black text-amber-600 shrink-0">{dueCounts[session.id]} due</span>
+                </button>
+              ))}
+              {reviewQueue.length === 0 && (
+                <div className="px-6 py-8 text-center text-sm text-slate-400">Nothing to review today.</div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="lg:col-span-8">
+          <div className="bg-white rounded-3xl border border-slate-200 overflow-hidden shadow-sm">
+            <div className="px-8 py-6 border-b border-slate-100 bg-slate-50/50 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className="font-bold text-xl text-slate-800 flex items-center gap-3"><History className="w-5 h-5 text-slate-400" />History</h2>
+                <div className="flex items-center gap-2">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+                    <input type="search" value={librarySearch} onChange={(e) => setLibrarySearch(e.target.value)} aria-label="Search sessions" placeholder="Title, course or #tag" className="w-52 pl-9 pr-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-semibold text-slate-700 outline-none focus:border-indigo-400" />
                   </div>
+                  <select value={librarySort} onChange={(e) => setLibrarySort(e.target.value as SessionSort)} aria-label="Sort sessions" className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-semibold text-slate-700 outline-none focus:border-indigo-400">
+                    {(Object.keys(SESSION_SORT_LABELS) as SessionSort[]).map(key => <option key={key} value={key}>{SESSION_SORT_LABELS[key]}</option>)}
+                  </select>
                 </div>
+              </div>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {tags.map(tag => (
+                    <button key={tag} onClick={() => setLibrarySearch(librarySearch === `#${tag}` ? '' : `#${tag}`)} aria-pressed={librarySearch === `#${tag}`} className={`px-2 py-0.5 rounded-lg text-xs font-bold ${librarySearch === `#${tag}` ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-indigo-50 hover:text-indigo-600'}`}>#{tag}</button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {deletedSession && (
+              <div role="status" className="flex items-center justify-between gap-4 px-8 py-3 bg-slate-800 text-white text-sm font-semibold">
+                <span className="truncate">Deleted {sessionTitle(deletedSession.session)}</span>
+                <button onClick={undoDelete} className="flex items-center gap-2 font-black text-indigo-300 hover:text-indigo-200"><Undo2 className="w-4 h-4" />Undo</button>
+              </div>
+            )}
+            {deckSelection.length > 0 && (
+              <div className="flex items-center justify-between gap-4 px-8 py-3 bg-indigo-50 text-sm font-semibold text-indigo-700">
+                <span>{deckSelection.length} selected{deckSelection.length < 2 ? ' · pick another map to combine' : ''}</span>
+                <div className="flex gap-2">
+                  <button onClick={() => setDeckSelection([])} className="px-3 py-1.5 text-indigo-400 font-bold hover:text-indigo-600">Clear</button>
+                  <button onClick={openDeck} disabled={deckSelection.length < 2} className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-1.5 rounded-xl font-bold hover:bg-indigo-700 disabled:opacity-40"><Combine className="w-4 h-4" />Study together</button>
+                </div>
+              </div>
+            )}
+            <div>
+              {sessionGroups.map(([course, group]) => (
+                <section key={course} aria-label={course || 'No course'}>
+                  {(course || sessionGroups.length > 1) && (
+                    <h3 className="px-8 py-3 bg-slate-50 border-b border-slate-100 text-xs font-black text-slate-400 uppercase flex items-center gap-2"><FolderOpen className="w-4 h-4" />{course || 'No course'}<span className="text-slate-300">{group.length}</span></h3>
+                  )}
+                  <div className="divide-y divide-slate-100 border-b border-slate-100 -mb-px">
+                    {group.map(sessionRow)}
+                  </div>
+                </section>
               ))}
+              {sessions.length > 0 && sessionGroups.length === 0 && (
+                <div className="p-20 text-center text-slate-400">No sessions match “{librarySearch}”.</div>
+              )}
               {sessions.length === 0 && (
                 <div className="p-20 text-center text-slate-400">
-                  No sessions found. Upload a file to start.
+                  {isLoaded ? 'No sessions found. Upload a file to start.' : 'Loading sessions…'}
                 </div>
               )}
             </div>
@@ -422,46 +802,210 @@ export default function App() {
     </div>
   );
 
+  const importWarningsBanner = (
+    <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl text-sm">
+      <AlertCircle className="w-5 h-5 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="font-bold">{importWarnings.length} line(s) could not be placed in the map</p>
+        <ul className="mt-1 space-y-0.5 max-h-32 overflow-auto">
+          {importWarnings.map((w, i) => <li key={i} className="truncate">{w}</li>)}
+        </ul>
+      </div>
+      <button onClick={() => setImportWarnings([])} className="text-amber-400 hover:text-amber-600"><X className="w-4 h-4" /></button>
+    </div>
+  );
+
+  activeRef.current = activeSession;
+  // A newly opened session is synced from the copy it was opened with.
+  if (activeSession?.id !== syncBaseRef.current?.id) syncBaseRef.current = activeSession;
+
+  // Node updates adjust the stats and the filtered set from the previous render's; other changes recount them once here.
+  if (activeSession && !statsMatchSession(statsRef.current, activeSession)) statsRef.current = advanceTreeStats(statsRef.current, activeSession);
+  const activeStats = activeSession ? statsRef.current : null;
+  if (activeSession && activeStats) shownRef.current = updateShownNodes(shownRef.current, activeSession, filters, activeStats);
+  const isMasked = activeStats?.isRequired ?? (() => false);
+  const isShown = activeStats ? shownRef.current?.isShown ?? null : null;
+  // Hidden answers are neither searchable nor shown in breadcrumbs.
+  const isSearchable = (n: TreeNode) => !isOpenNode(isMasked(n), activeSession?.nodeStates[n.id]);
+
+  // Focus mode studies one branch as if it were the whole map; exams always cover the whole map.
+  const mapRoot = activeSession?.data;
+  const branch = useMemo(() => (mapRoot && focusBranchId ? findNode(mapRoot, focusBranchId) : null), [mapRoot, focusBranchId]);
+  const studySession = activeSession && branch ? { ...activeSession, data: branch } : activeSession;
+  const crumbs = activeSession && branch
+    ? (findPath(activeSession.data, branch.id) || []).map(n => ({ id: n.id, label: isSearchable(n) ? stripCloze(n.text) : '…' }))
+    : [];
+  const shownProgress = activeStats ? (branch ? branchProgress(activeStats, branch) : activeStats.progress) : 0;
+  const breadcrumbs = branch && <BranchBreadcrumbs crumbs={crumbs} progress={shownProgress} onSelect={focusBranch} />;
+
+  // A deck studied with its sources' own policies has no single level.
+  const isLevelActive = (level: DifficultyLevel) =>
+    !!activeSession && !activeSession.maskingPolicy && !activeSession.deckPolicies && activeSession.difficulty === level;
+
+  // Quizzes rebuild their queues when the policy or the focused branch changes.
+  const maskKey = activeSession ? `${policyKeyForSession(activeSession)}:${branch?.id ?? ''}` : '';
+
+  const studyTree = studySession && (
+    <StudyTree
+      key={branch?.id ?? 'map'}
+      root={studySession.data}
+      nodeStates={studySession.nodeStates}
+      isMasked={isMasked}
+      isShown={isShown}
+      typoTolerance={studySession.typoTolerance}
+      scrollRef={studyScrollRef}
+      jumpTarget={jumpTarget}
+      onUpdateNode={handleNodeUpdate}
+      onAttempt={handleAttempt}
+      onFocusBranch={focusBranch}
+    />
+  );
+
   const studyView = activeSession && (
     <div className="flex flex-col h-screen bg-slate-50 overflow-hidden">
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+      {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
       <header className="h-20 bg-white border-b border-slate-200 px-6 flex items-center justify-between shadow-sm shrink-0 z-20">
         <div className="flex items-center gap-4">
           <button onClick={handleSaveAndExit} className="flex items-center gap-2 text-slate-600 hover:text-indigo-600 font-bold px-4 py-2 hover:bg-slate-50 rounded-2xl"><Home className="w-5 h-5" /><span className="hidden md:inline">Exit</span></button>
-          <div className="flex bg-slate-100 p-1.5 rounded-2xl">
+          <div className="relative flex bg-slate-100 p-1.5 rounded-2xl">
             {[1, 2, 3].map((lvl) => (
-              <button key={lvl} onClick={() => setDifficulty(lvl)} className={`px-4 py-1.5 rounded-xl text-xs font-black transition-all ${activeSession.difficulty === lvl ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>Lvl {lvl}</button>
+              <button key={lvl} onClick={() => setDifficulty(lvl)} title={`Level ${lvl} (Alt+${lvl})`} aria-pressed={isLevelActive(lvl)} className={`px-4 py-1.5 rounded-xl text-xs font-black transition-all ${isLevelActive(lvl) ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>Lvl {lvl}</button>
+            ))}
+            {maskPresets.map(preset => (
+              <div key={preset.id} className={`group/preset flex items-center rounded-xl transition-all ${activeSession.maskPresetId === preset.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>
+                <button onClick={() => applyMaskingPolicy(preset.policy, preset.id)} title={describePolicy(preset.policy)} className="pl-3 pr-1 py-1.5 text-xs font-black max-w-[8rem] truncate">{preset.name}</button>
+                <button onClick={() => confirm(`Delete preset "${preset.name}"?`) && deleteMaskPreset(preset.id)} className="pr-2 opacity-0 group-hover/preset:opacity-100 hover:text-red-500"><X className="w-3 h-3" /></button>
+              </div>
+            ))}
+            <button
+              onClick={() => setShowMaskingPanel(!showMaskingPanel)}
+              title={activeSession.maskingPolicy ? `Custom: ${describePolicy(activeSession.maskingPolicy)}` : 'Custom masking'}
+              className={`px-3 py-1.5 rounded-xl transition-all ${activeSession.maskingPolicy && !activeSession.maskPresetId ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+            {showMaskingPanel && (
+              <MaskingPanel
+                root={activeSession.data}
+                initial={policyForSession(activeSession)}
+                onApply={(policy) => applyMaskingPolicy(policy)}
+                onSavePreset={saveMaskPreset}
+                onClose={() => setShowMaskingPanel(false)}
+              />
+            )}
+          </div>
+          <div className="flex bg-slate-100 p-1.5 rounded-2xl">
+            {([
+              ['recall', 'Type to recall', Keyboard],
+              ['flashcard', 'Flashcards', Layers],
+              ['choice', 'Multiple choice', ListChecks],
+              ['ordering', 'Order children', ArrowUpDown],
+              ['exam', 'Timed exam', GraduationCap]
+            ] as [StudyMode, string, typeof Keyboard][]).map(([mode, label, Icon]) => (
+              <button key={mode} onClick={() => setStudyMode(mode)} title={label} aria-label={label} aria-pressed={(activeSession.studyMode ?? 'recall') === mode} className={`px-3 py-1.5 rounded-xl transition-all ${(activeSession.studyMode ?? 'recall') === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}><Icon className="w-4 h-4" /></button>
             ))}
           </div>
+          <div className="flex bg-slate-100 p-1.5 rounded-2xl">
+            <button onClick={() => setViewMode('list')} title="List view" className={`px-3 py-1.5 rounded-xl transition-all ${(activeSession.viewMode ?? 'list') === 'list' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}><List className="w-4 h-4" /></button>
+            <button onClick={() => setViewMode('canvas')} title="Canvas view" className={`px-3 py-1.5 rounded-xl transition-all ${activeSession.viewMode === 'canvas' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}><Network className="w-4 h-4" /></button>
+          </div>
         </div>
         <div className="flex items-center gap-2 md:gap-4">
+          {!isEditing && (activeSession.studyMode ?? 'recall') === 'recall' && <SearchBox root={activeSession.data} isSearchable={isSearchable} onPick={jumpToNode} />}
           <div className="hidden lg:flex flex-col items-end mr-4">
-            <span className="text-[10px] font-black text-slate-400 uppercase">Recall Mastery</span>
+            <span className="text-[10px] font-black text-slate-400 uppercase">{branch ? 'Branch Mastery' : 'Recall Mastery'}</span>
             <div className="w-32 h-2 bg-slate-100 rounded-full mt-1 overflow-hidden ring-1 ring-slate-200">
-              <div className="h-full bg-indigo-600 transition-all duration-700" style={{ width: `${activeSession.progress}%` }}></div>
+              <div className="h-full bg-indigo-600 transition-all duration-700" style={{ width: `${shownProgress}%` }}></div>
             </div>
           </div>
           <div className="flex items-center bg-slate-100 p-1 rounded-2xl">
-            <button onClick={toggleGlobalExpand} className="p-2 text-slate-500 hover:text-indigo-600"><Maximize className="w-5 h-5" /></button>
-            <button onClick={() => setIsStarredOnly(!isStarredOnly)} className={`p-2 rounded-xl transition-all ${isStarredOnly ? 'bg-white text-amber-500' : 'text-slate-500'}`}><Star className={`w-5 h-5 ${isStarredOnly ? 'fill-amber-500' : ''}`} /></button>
-            <button onClick={() => confirm("Reset progress?") && handleNodeUpdate('', {})} className="p-2 text-slate-500 hover:text-red-500"><RotateCcw className="w-5 h-5" /></button>
+            {/* A combined deck is edited through its source maps. */}
+            {!isDeck(activeSession) && (
+              <button onClick={() => setIsEditing(!isEditing)} title={isEditing ? 'Back to studying' : 'Edit map'} className={`p-2 rounded-xl transition-all ${isEditing ? 'bg-white text-indigo-600' : 'text-slate-500 hover:text-indigo-600'}`}><PenLine className="w-5 h-5" /></button>
+            )}
+            <button onClick={toggleGlobalExpand} aria-label={globalExpand ? 'Collapse all' : 'Expand all'} className="p-2 text-slate-500 hover:text-indigo-600"><Maximize className="w-5 h-5" /></button>
+            <button onClick={cycleTypoTolerance} title={`Typo tolerance: ${activeSession.typoTolerance ?? DEFAULT_MATCH_OPTIONS.typoTolerance}`} className={`px-2 py-2 rounded-xl text-xs font-black transition-all ${(activeSession.typoTolerance ?? DEFAULT_MATCH_OPTIONS.typoTolerance) === 'off' ? 'text-slate-400' : 'bg-white text-indigo-600'}`}>Aa≈</button>
+            {(activeSession.studyMode ?? 'recall') === 'recall' && (
+              <>
+                <button onClick={() => setFilters({ ...filters, starred: !filters.starred })} aria-label="Show starred only" aria-pressed={filters.starred} className={`p-2 rounded-xl transition-all ${filters.starred ? 'bg-white text-amber-500' : 'text-slate-500'}`}><Star className={`w-5 h-5 ${filters.starred ? 'fill-amber-500' : ''}`} /></button>
+                <button onClick={() => setFilters({ ...filters, unsolved: !filters.unsolved })} aria-label="Show unsolved only" aria-pressed={filters.unsolved} className={`p-2 rounded-xl transition-all ${filters.unsolved ? 'bg-white text-indigo-600' : 'text-slate-500'}`}><CircleDashed className="w-5 h-5" /></button>
+                <button onClick={() => setFilters({ ...filters, hinted: !filters.hinted })} aria-label="Show nodes hinted at least once" aria-pressed={filters.hinted} className={`p-2 rounded-xl transition-all ${filters.hinted ? 'bg-white text-indigo-600' : 'text-slate-500'}`}><HelpCircle className="w-5 h-5" /></button>
+              </>
+            )}
+            <button onClick={confirmReset} aria-label="Reset progress (Alt+R)" className="p-2 text-slate-500 hover:text-red-500"><RotateCcw className="w-5 h-5" /></button>
+            <button onClick={() => setShowShortcuts(true)} aria-label="Keyboard shortcuts (?)" className="p-2 text-slate-500 hover:text-indigo-600"><Command className="w-5 h-5" /></button>
           </div>
         </div>
       </header>
 
-      <main className="flex-1 overflow-auto bg-[radial-gradient(#e2e8f0_1px,transparent_1px)] [background-size:24px_24px] p-8 md:p-16">
-        <div className="max-w-4xl mx-auto pb-40">
-          <h1 className="text-4xl font-black text-slate-900 mb-12 border-l-8 border-indigo-600 pl-6">{activeSession.data.text}</h1>
-          <MindMapNode node={activeSession.data} session={activeSession} difficulty={activeSession.difficulty} onUpdateNode={handleNodeUpdate} starredOnly={isStarredOnly} isRoot={true} />
-        </div>
-      </main>
+      {isEditing ? (
+        <main className="flex-1 overflow-auto bg-slate-50 p-8 md:p-16">
+          <div className="max-w-4xl mx-auto pb-40">
+            <MapEditor tree={activeSession.data} nodeStates={activeSession.nodeStates} onChange={handleTreeEdit} />
+          </div>
+        </main>
+      ) : (activeSession.studyMode ?? 'recall') !== 'recall' ? (
+        <main className="flex-1 overflow-auto bg-[radial-gradient(#e2e8f0_1px,transparent_1px)] [background-size:24px_24px] p-8 md:p-16">
+          <div className="pb-40">
+            {activeSession.studyMode !== 'exam' && breadcrumbs && <div className="max-w-4xl mx-auto mb-8">{breadcrumbs}</div>}
+            {activeSession.studyMode === 'flashcard' && <FlashcardQuiz key={`flashcard-${maskKey}`} session={studySession!} isMasked={isMasked} onUpdateNode={handleNodeUpdate} onAttempt={handleAttempt} />}
+            {activeSession.studyMode === 'choice' && <MultipleChoiceQuiz key={`choice-${maskKey}`} session={studySession!} isMasked={isMasked} onUpdateNode={handleNodeUpdate} onAttempt={handleAttempt} />}
+            {activeSession.studyMode === 'exam' && <ExamView key={`exam-${maskKey}`} session={activeSession} isMasked={isMasked} onFinish={handleExamFinish} />}
+            {activeSession.studyMode === 'ordering' && <OrderingQuiz key={`ordering-${maskKey}`} session={studySession!} isMasked={isMasked} onUpdateNode={handleNodeUpdate} onAttempt={handleAttempt} />}
+          </div>
+        </main>
+      ) : activeSession.viewMode === 'canvas' ? (
+        <main className="flex-1 relative overflow-hidden bg-[radial-gradient(#e2e8f0_1px,transparent_1px)] [background-size:24px_24px]">
+          <MindMapCanvas
+            key={branch?.id ?? 'map'}
+            session={studySession!}
+            isMasked={isMasked}
+            isShown={isShown}
+            layout={activeSession.canvasLayout ?? 'tree'}
+            jumpTarget={jumpTarget}
+            onLayoutChange={setCanvasLayout}
+            onUpdateNode={handleNodeUpdate}
+            onAttempt={handleAttempt}
+            onFocusBranch={focusBranch}
+          />
+          {(importWarnings.length > 0 || breadcrumbs) && (
+            <div className="absolute top-6 left-6 right-6 max-w-2xl z-10 space-y-3">
+              {breadcrumbs}
+              {importWarnings.length > 0 && importWarningsBanner}
+            </div>
+          )}
+        </main>
+      ) : (
+        <main ref={studyScrollRef} className="flex-1 overflow-auto bg-[radial-gradient(#e2e8f0_1px,transparent_1px)] [background-size:24px_24px] p-8 md:p-16">
+          <div className="max-w-4xl mx-auto pb-40">
+            {importWarnings.length > 0 && <div className="mb-8">{importWarningsBanner}</div>}
+            <h1 className={`text-4xl font-black text-slate-900 border-l-8 border-indigo-600 pl-6 ${breadcrumbs ? 'mb-6' : 'mb-12'}`}>{stripCloze(activeSession.data.text)}</h1>
+            {breadcrumbs && <div className="mb-12">{breadcrumbs}</div>}
+            {benchmarkSize ? <Profiler id="study-tree" onRender={renderTimer}>{studyTree}</Profiler> : studyTree}
+          </div>
+        </main>
+      )}
 
       <div className="lg:hidden fixed bottom-6 left-1/2 -translate-x-1/2 bg-slate-900 text-white px-8 py-3 rounded-full shadow-2xl flex gap-6 z-30 font-bold">
-        <span>{activeSession.progress}%</span>
+        <span>{shownProgress}%</span>
         <div className="w-px h-6 bg-slate-700"></div>
-        <span>Level {activeSession.difficulty}</span>
+        <span>{activeSession.maskingPolicy ? maskPresets.find(p => p.id === activeSession.maskPresetId)?.name ?? 'Custom' : `Level ${activeSession.difficulty}`}</span>
       </div>
     </div>
   );
 
+  if (view === 'analytics') {
+    return (
+      <AnalyticsView
+        sessions={sessions}
+        scopeId={analyticsScope}
+        onScopeChange={setAnalyticsScope}
+        onStarNodes={starNodes}
+        onBack={() => setView('dashboard')}
+      />
+    );
+  }
+
   return view === 'dashboard' ? dashboardView : studyView;
 }
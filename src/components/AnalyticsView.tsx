@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import { ArrowLeft, BarChart3, Star } from 'lucide-react';
+import { Session } from '../types';
+import { branchMastery, dailyStats, mostMissed } from '../utils/analytics';
+import { stripCloze } from '../utils/cloze';
+import { sessionTitle } from '../utils/library';
+import { maskPredicateForSession } from '../utils/masking';
+
+const ACCURACY_DAYS = 30;
+const HEATMAP_WEEKS = 20;
+
+const heatColor = (count: number, max: number) => {
+  if (count === 0) return 'bg-slate-100';
+  const ratio = count / Math.max(1, max);
+  if (ratio > 0.75) return 'bg-indigo-700';
+  if (ratio > 0.5) return 'bg-indigo-500';
+  if (ratio > 0.25) return 'bg-indigo-300';
+  return 'bg-indigo-200';
+};
+
+// Study analytics for one session or all of them, built from the attempt log.
+const AnalyticsView: React.FC<{
+  sessions: Session[];
+  scopeId: string;
+  onScopeChange: (scopeId: string) => void;
+  onStarNodes: (nodes: { sessionId: string; nodeId: string }[]) => void;
+  onBack: () => void;
+}> = ({ sessions, scopeId, onScopeChange, onStarNodes, onBack }) => {
+  const scoped = useMemo(() => (scopeId === 'all' ? sessions : sessions.filter(s => s.id === scopeId)), [sessions, scopeId]);
+  const attempts = useMemo(() => scoped.flatMap(s => s.attempts || []), [scoped]);
+  const accuracy = useMemo(() => dailyStats(attempts, ACCURACY_DAYS), [attempts]);
+  const activity = useMemo(() => {
+    // Align the grid so the last column ends with today.
+    const today = new Date();
+    const days = (HEATMAP_WEEKS - 1) * 7 + today.getDay() + 1;
+    return dailyStats(attempts, days);
+  }, [attempts]);
+  const missed = useMemo(() => mostMissed(scoped), [scoped]);
+  const titles = useMemo(() => Object.fromEntries(sessions.map(s => [s.id, sessionTitle(s)])), [sessions]);
+  const maxActivity = Math.max(...activity.map(d => d.attempts), 0);
+  const total = attempts.length;
+  const correct = attempts.filter(a => a.correct).length;
+
+  const weeks: typeof activity[] = [];
+  for (let i = 0; i < activity.length; i += 7) weeks.push(activity.slice(i, i + 7));
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 py-12">
+      <header className="flex flex-col md:flex-row md:items-center justify-between gap-6 mb-10">
+        <div className="flex items-center gap-4">
+          <button onClick={onBack} className="p-3 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded-2xl"><ArrowLeft className="w-5 h-5" /></button>
+          <h1 className="text-3xl font-extrabold text-slate-900 tracking-tight flex items-center gap-3"><BarChart3 className="w-7 h-7 text-indigo-600" />Analytics</h1>
+        </div>
+        <select value={scopeId} onChange={(e) => onScopeChange(e.target.value)} className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl font-semibold text-slate-700 shadow-sm">
+          <option value="all">All sessions</option>
+          {sessions.map(s => <option key={s.id} value={s.id}>{sessionTitle(s)}</option>)}
+        </select>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+        <section className="lg:col-span-8 bg-white rounded-3xl border border-slate-200 p-8 shadow-sm">
+          <div className="flex items-baseline justify-between mb-6">
+            <h2 className="font-bold text-lg text-slate-800">Accuracy, last {ACCURACY_DAYS} days</h2>
+            <span className="text-sm font-bold text-slate-500">{total > 0 ? `${Math.round((correct / total) * 100)}% of ${total} attempts` : 'No attempts yet'}</span>
+          </div>
+          <div className="flex items-end gap-1 h-40">
+            {accuracy.map(d => (
+              <div key={d.day} title={d.accuracy === null ? `${d.day}: no attempts` : `${d.day}: ${Math.round(d.accuracy * 100)}% of ${d.attempts}`} className="flex-1 h-full flex items-end">
+                <div
+                  className={`w-full rounded-t ${d.accuracy === null ? 'bg-slate-100' : 'bg-indigo-500'}`}
+                  style={{ height: d.accuracy === null ? '4%' : `${Math.max(4, d.accuracy * 100)}%` }}
+                ></div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="lg:col-span-4 bg-white rounded-3xl border border-slate-200 p-8 shadow-sm">
+          <h2 className="font-bold text-lg text-slate-800 mb-6">Study activity</h2>
+          <div className="flex gap-1 overflow-x-auto">
+            {weeks.map((week, i) => (
+              <div key={i} className="flex flex-col gap-1">
+                {week.map(d => (
+                  <div key={d.day} title={`${d.day}: ${d.attempts} attempts`} className={`w-3 h-3 rounded-sm ${heatColor(d.attempts, maxActivity)}`}></div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="lg:col-span-6 bg-white rounded-3xl border border-slate-200 p-8 shadow-sm">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="font-bold text-lg text-slate-800">Most missed</h2>
+            {missed.length > 0 && (
+              <button
+                onClick={() => onStarNodes(missed.map(m => ({ sessionId: m.sessionId, nodeId: m.node.id })))}
+                className="flex items-center gap-2 px-3 py-1.5 bg-amber-50 text-amber-700 rounded-xl text-xs font-bold hover:bg-amber-100"
+              >
+                <Star className="w-4 h-4" />Star all of these
+              </button>
+            )}
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {missed.map(m => (
+              <li key={`${m.sessionId}-${m.node.id}`} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-bold text-slate-700 truncate">{stripCloze(m.node.text)}</p>
+                  {scopeId === 'all' && <p className="text-xs text-slate-400 truncate">{titles[m.sessionId]}</p>}
+                </div>
+                <span className="text-xs font-black text-red-500 shrink-0">{m.misses} / {m.attempts} missed</span>
+              </li>
+            ))}
+            {missed.length === 0 && <li className="py-8 text-center text-sm text-slate-400">No misses recorded.</li>}
+          </ul>
+        </section>
+
+        <section className="lg:col-span-6 bg-white rounded-3xl border border-slate-200 p-8 shadow-sm">
+          <h2 className="font-bold text-lg text-slate-800 mb-6">Branch mastery</h2>
+          <div className="space-y-6">
+            {scoped.map(session => (
+              <div key={session.id}>
+                {scopeId === 'all' && <p className="text-xs font-black text-slate-400 uppercase mb-2 truncate">{sessionTitle(session)}</p>}
+                <ul className="space-y-3">
+                  {branchMastery(session, maskPredicateForSession(session)).map(b => (
+                    <li key={b.node.id}>
+                      <div className="flex justify-between text-sm font-bold text-slate-600 mb-1">
+                        <span className="truncate">{stripCloze(b.node.text)}</span>
+                        <span className="shrink-0 ml-4">{b.earned}/{b.total}</span>
+                      </div>
+                      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-green-500" style={{ width: `${b.total > 0 ? (b.earned / b.total) * 100 : 0}%` }}></div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsView;
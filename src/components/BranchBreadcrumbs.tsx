@@ -0,0 +1,28 @@
+import React from 'react';
+import { ChevronRight, X } from 'lucide-react';
+
+// Trail from the map root to the focused branch; any ancestor can be focused instead, the root leaves focus mode.
+const BranchBreadcrumbs: React.FC<{
+  crumbs: { id: string; label: string }[];
+  progress: number;
+  onSelect: (nodeId: string | null) => void;
+}> = ({ crumbs, progress, onSelect }) => (
+  <nav aria-label="Focused branch" className="flex items-center gap-3 px-4 py-2.5 bg-white rounded-2xl shadow-sm ring-1 ring-slate-200">
+    <ol className="flex flex-wrap items-center gap-1 flex-1 min-w-0 text-sm font-bold">
+      {crumbs.map((crumb, i) => (
+        <li key={crumb.id} className="flex items-center gap-1 min-w-0">
+          {i > 0 && <ChevronRight className="w-4 h-4 text-slate-300 shrink-0" />}
+          {i === crumbs.length - 1 ? (
+            <span aria-current="location" className="text-indigo-600 truncate">{crumb.label}</span>
+          ) : (
+            <button onClick={() => onSelect(i === 0 ? null : crumb.id)} className="text-slate-500 hover:text-indigo-600 truncate max-w-[12rem]">{crumb.label}</button>
+          )}
+        </li>
+      ))}
+    </ol>
+    <span className="text-xs font-black text-slate-400 shrink-0">{progress}% of branch</span>
+    <button onClick={() => onSelect(null)} aria-label="Leave branch focus" className="p-1 text-slate-400 hover:text-slate-600 shrink-0"><X className="w-4 h-4" /></button>
+  </nav>
+);
+
+export default BranchBreadcrumbs;
@@ -0,0 +1,249 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, CircleDashed, Clock, GraduationCap, XCircle } from 'lucide-react';
+import { Attempt, ExamResult, Session, TreeNode } from '../types';
+import { DEFAULT_MATCH_OPTIONS } from '../utils/answers';
+import { parseCloze, stripCloze } from '../utils/cloze';
+import { blankResponseKey, collectExamNodes, formatDuration, gradeExam, isAnswered, shuffleSiblings } from '../utils/exam';
+import { generateId } from '../utils/parser';
+
+type Phase = 'setup' | 'running' | 'report';
+
+const DEFAULT_MINUTES = 10;
+
+const resultIcon = (result: ExamResult['answers'][number]['result']) => {
+  if (result === 'exact') return <CheckCircle2 className="w-5 h-5 text-green-500 shrink-0" />;
+  if (result === 'close') return <CircleDashed className="w-5 h-5 text-amber-500 shrink-0" />;
+  return <XCircle className="w-5 h-5 text-red-500 shrink-0" />;
+};
+
+const ExamNode: React.FC<{
+  node: TreeNode;
+  isMasked: (n: TreeNode) => boolean;
+  responses: Record<string, string>;
+  onRespond: (nodeId: string, value: string) => void;
+  isRoot?: boolean;
+}> = ({ node, isMasked, responses, onRespond, isRoot = false }) => {
+  // Enter jumps to the next blank instead of submitting anything.
+  const focusNext = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const inputs = Array.from(document.querySelectorAll<HTMLInputElement>('input[data-exam-input]'));
+    inputs[inputs.indexOf(e.currentTarget) + 1]?.focus();
+  };
+
+  const segments = parseCloze(node.text);
+  const blankCount = segments.filter(s => s.kind === 'blank').length;
+
+  return (
+    <div className={isRoot ? '' : 'ml-10 mt-3'}>
+      {isMasked(node) && blankCount > 0 ? (
+        // Only the blanks are asked; the rest of the text stays readable.
+        <span className="inline-flex flex-wrap items-center gap-1 px-4 py-2 rounded-2xl bg-white border border-slate-200 font-bold text-slate-700">
+          {segments.map((segment, i) => segment.kind === 'text' ? (
+            <span key={i} className="whitespace-pre-wrap">{segment.text}</span>
+          ) : (
+            <input
+              key={i}
+              data-exam-input
+              aria-label={`Blank ${segment.index + 1} of ${blankCount}`}
+              value={responses[blankResponseKey(node.id, segment.index)] || ''}
+              onChange={(e) => onRespond(blankResponseKey(node.id, segment.index), e.target.value)}
+              onKeyDown={focusNext}
+              placeholder="..."
+              className="w-32 h-9 px-3 border-2 border-slate-200 rounded-lg font-bold text-sm text-slate-700 outline-none focus:border-indigo-400"
+            />
+          ))}
+        </span>
+      ) : isMasked(node) ? (
+        <input
+          data-exam-input
+          value={responses[node.id] || ''}
+          onChange={(e) => onRespond(node.id, e.target.value)}
+          onKeyDown={focusNext}
+          placeholder="..."
+          className="w-72 px-4 py-2.5 bg-white border-2 border-slate-200 rounded-2xl font-bold text-slate-700 outline-none focus:border-indigo-400"
+        />
+      ) : (
+        <span className={`inline-block px-4 py-2.5 rounded-2xl bg-white border border-slate-200 font-bold ${isRoot ? 'text-xl text-slate-900' : 'text-slate-700'}`}>{stripCloze(node.text)}</span>
+      )}
+      {node.children.length > 0 && (
+        <div className="border-l-2 border-slate-200">
+          {node.children.map(child => (
+            <ExamNode key={child.id} node={child} isMasked={isMasked} responses={responses} onRespond={onRespond} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Timed self-test: no hints or feedback until everything is submitted.
+const ExamView: React.FC<{
+  session: Session;
+  isMasked: (n: TreeNode) => boolean;
+  onFinish: (result: ExamResult, attempts: Attempt[]) => void;
+}> = ({ session, isMasked, onFinish }) => {
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [minutes, setMinutes] = useState(DEFAULT_MINUTES);
+  const [shuffleOrder, setShuffleOrder] = useState(false);
+  const [examTree, setExamTree] = useState<TreeNode>(session.data);
+  const [responses, setResponses] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(Date.now());
+  const [result, setResult] = useState<ExamResult | null>(null);
+  const startedAtRef = useRef(0);
+
+  const questions = collectExamNodes(examTree, isMasked);
+  const timeLimitMs = minutes * 60 * 1000;
+  const remaining = startedAtRef.current + timeLimitMs - now;
+
+  const start = () => {
+    setExamTree(shuffleOrder ? shuffleSiblings(session.data) : session.data);
+    setResponses({});
+    setResult(null);
+    startedAtRef.current = Date.now();
+    setNow(Date.now());
+    setPhase('running');
+  };
+
+  const submit = (timedOut: boolean) => {
+    const finishedAt = Date.now();
+    const graded = gradeExam(questions, responses, { ...DEFAULT_MATCH_OPTIONS, typoTolerance: session.typoTolerance ?? DEFAULT_MATCH_OPTIONS.typoTolerance });
+    const exam: ExamResult = {
+      id: generateId(),
+      startedAt: startedAtRef.current,
+      finishedAt,
+      timeLimitMs,
+      timedOut,
+      ...graded
+    };
+    // Exams have no per-question timing, so the elapsed time is split evenly.
+    const perQuestion = Math.round((finishedAt - startedAtRef.current) / Math.max(1, questions.length));
+    const attempts: Attempt[] = graded.answers.map(a => ({
+      nodeId: a.nodeId,
+      at: finishedAt,
+      correct: a.result !== 'wrong',
+      close: a.result === 'close',
+      answer: a.answer,
+      hintsUsed: 0,
+      durationMs: perQuestion,
+      mode: 'exam'
+    }));
+    setResult(exam);
+    setPhase('report');
+    onFinish(exam, attempts);
+  };
+
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  // Time running out submits the latest responses, whichever render the interval last produced.
+  const submitRef = useRef(submit);
+  submitRef.current = submit;
+
+  useEffect(() => {
+    if (phase === 'running' && remaining <= 0) submitRef.current(true);
+  }, [phase, remaining]);
+
+  const history = [...(session.exams || [])].reverse();
+
+  const historyList = history.length > 0 && (
+    <div className="mt-8 p-8 bg-white rounded-3xl border border-slate-200 shadow-sm">
+      <h3 className="font-bold text-slate-800 mb-4">Past exams</h3>
+      <ul className="space-y-3">
+        {history.map((exam, i) => {
+          const previous = history[i + 1];
+          const delta = previous ? exam.score - previous.score : null;
+          return (
+            <li key={exam.id} className={`flex items-center gap-4 text-sm ${exam.id === result?.id ? 'font-black' : 'font-semibold'}`}>
+              <span className="w-36 text-slate-400 shrink-0">{new Date(exam.finishedAt).toLocaleString()}</span>
+              <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500" style={{ width: `${exam.score}%` }}></div>
+              </div>
+              <span className="w-12 text-right text-slate-700">{exam.score}%</span>
+              <span className={`w-12 text-right text-xs ${delta === null ? 'text-slate-300' : delta >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                {delta === null ? '–' : `${delta >= 0 ? '+' : ''}${delta}`}
+              </span>
+              <span className="w-24 text-right text-xs text-slate-400">{formatDuration(exam.finishedAt - exam.startedAt)}{exam.timedOut ? ' ⏱' : ''}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+
+  if (phase === 'setup') {
+    return (
+      <div className="max-w-xl mx-auto mt-8">
+        <div className="p-8 bg-white rounded-3xl border border-slate-200 shadow-sm space-y-6">
+          <div className="flex items-center gap-3">
+            <GraduationCap className="w-7 h-7 text-indigo-600" />
+            <h2 className="text-2xl font-black text-slate-800">Exam</h2>
+          </div>
+          <p className="text-slate-500">{questions.length} blanks at the current masking level. No hints and no feedback until you submit.</p>
+          <div className="flex items-center gap-3">
+            <label className="text-sm font-bold text-slate-600">Time limit</label>
+            <input type="number" min={1} value={minutes} onChange={(e) => setMinutes(Math.max(1, Number(e.target.value) || 1))} className="w-20 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-700 outline-none focus:border-indigo-400" />
+            <span className="text-sm font-bold text-slate-400">minutes</span>
+          </div>
+          <label className="flex items-center gap-2 text-sm font-bold text-slate-600">
+            <input type="checkbox" checked={shuffleOrder} onChange={(e) => setShuffleOrder(e.target.checked)} className="accent-indigo-600" />
+            Shuffle sibling order
+          </label>
+          <button onClick={start} disabled={questions.length === 0} className="w-full py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 disabled:opacity-40">Start exam</button>
+        </div>
+        {historyList}
+      </div>
+    );
+  }
+
+  if (phase === 'report' && result) {
+    const counts = { exact: 0, close: 0, wrong: 0 };
+    result.answers.forEach(a => counts[a.result]++);
+    return (
+      <div className="max-w-3xl mx-auto mt-8">
+        <div className="p-8 bg-white rounded-3xl border border-slate-200 shadow-sm">
+          <div className="flex items-end justify-between mb-8">
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase">{result.timedOut ? 'Time ran out' : 'Submitted'} after {formatDuration(result.finishedAt - result.startedAt)}</p>
+              <p className="text-6xl font-black text-slate-900">{result.score}%</p>
+            </div>
+            <div className="text-right text-sm font-bold space-y-1">
+              <p className="text-green-600">{counts.exact} correct</p>
+              <p className="text-amber-600">{counts.close} close</p>
+              <p className="text-red-500">{counts.wrong} wrong</p>
+            </div>
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {result.answers.map(a => (
+              <li key={a.nodeId} className="py-3 flex items-center gap-4">
+                {resultIcon(a.result)}
+                <span className={`flex-1 min-w-0 truncate font-semibold ${a.result === 'wrong' ? 'text-red-500 line-through' : 'text-slate-600'}`}>{a.answer || '(blank)'}</span>
+                <span className="flex-1 min-w-0 truncate font-bold text-slate-800">{stripCloze(a.text)}</span>
+              </li>
+            ))}
+          </ul>
+          <button onClick={() => setPhase('setup')} className="mt-8 w-full py-3 bg-slate-100 text-slate-700 rounded-2xl font-bold hover:bg-slate-200">New exam</button>
+        </div>
+        {historyList}
+      </div>
+    );
+  }
+
+  const answered = questions.filter(q => isAnswered(q, responses)).length;
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="sticky top-0 z-10 flex items-center justify-between mb-8 p-4 bg-white/95 rounded-2xl shadow-sm ring-1 ring-slate-200">
+        <span className={`flex items-center gap-2 font-black tabular-nums ${remaining < 60000 ? 'text-red-500' : 'text-slate-700'}`}><Clock className="w-5 h-5" />{formatDuration(remaining)}</span>
+        <span className="text-xs font-black text-slate-400">{answered} / {questions.length} answered</span>
+        <button onClick={() => confirm('Submit your answers?') && submit(false)} className="px-5 py-2 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700">Submit</button>
+      </div>
+      <ExamNode node={examTree} isMasked={isMasked} responses={responses} onRespond={(id, value) => setResponses(r => ({ ...r, [id]: value }))} isRoot={true} />
+    </div>
+  );
+};
+
+export default ExamView;
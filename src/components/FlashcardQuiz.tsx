@@ -0,0 +1,76 @@
+import React, { useRef, useState } from 'react';
+import { RotateCw } from 'lucide-react';
+import { Attempt, NodeState, Session, TreeNode } from '../types';
+import { stripCloze } from '../utils/cloze';
+import { collectQuizItems, formatPath, solvedUpdate } from '../utils/quiz';
+import { gradeRecall } from '../utils/scheduler';
+import QuizFrame from './QuizFrame';
+
+type SelfGrade = 'again' | 'hard' | 'good';
+
+// Shows the path to a node, flips to reveal it and lets the learner grade themselves.
+const FlashcardQuiz: React.FC<{
+  session: Session;
+  isMasked: (n: TreeNode) => boolean;
+  onUpdateNode: (nodeId: string, state: Partial<NodeState>) => void;
+  onAttempt: (attempt: Attempt) => void;
+}> = ({ session, isMasked, onUpdateNode, onAttempt }) => {
+  const [queue, setQueue] = useState(() => collectQuizItems(session.data, session.nodeStates, isMasked));
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [misses, setMisses] = useState<Record<string, number>>({});
+  const shownAtRef = useRef(Date.now());
+  const current = queue[0];
+
+  const grade = (selfGrade: SelfGrade) => {
+    const [item, ...rest] = queue;
+    const state = session.nodeStates[item.node.id];
+    const now = Date.now();
+    onAttempt({
+      nodeId: item.node.id,
+      at: now,
+      correct: selfGrade !== 'again',
+      answer: selfGrade,
+      hintsUsed: state?.hintCount || 0,
+      durationMs: now - shownAtRef.current,
+      mode: 'flashcard'
+    });
+    shownAtRef.current = now;
+    setIsFlipped(false);
+    if (selfGrade === 'again') {
+      setMisses({ ...misses, [item.node.id]: (misses[item.node.id] || 0) + 1 });
+      setQueue([...rest, item]);
+      return;
+    }
+    const outcome = gradeRecall(state?.hintCount || 0, misses[item.node.id] || 0, selfGrade === 'hard');
+    onUpdateNode(item.node.id, solvedUpdate(state, outcome));
+    setQueue(rest);
+  };
+
+  return (
+    <QuizFrame title="Flashcards" path={current ? formatPath(current.path) : ''} remaining={queue.length}>
+      {current && (
+        <>
+          <button
+            onClick={() => setIsFlipped(!isFlipped)}
+            className="w-full min-h-40 flex items-center justify-center p-8 rounded-2xl bg-slate-50 border-2 border-dashed border-slate-200 hover:border-indigo-300 transition-all"
+          >
+            {isFlipped ? (
+              <span className="text-2xl font-black text-slate-800 break-words">{stripCloze(current.node.text)}</span>
+            ) : (
+              <span className="flex items-center gap-2 text-slate-400 font-bold"><RotateCw className="w-5 h-5" />Recall, then tap to flip</span>
+            )}
+          </button>
+          {isFlipped && (
+            <div className="grid grid-cols-3 gap-3 mt-6">
+              <button onClick={() => grade('again')} className="py-3 rounded-2xl font-bold bg-red-50 text-red-600 hover:bg-red-100">Again</button>
+              <button onClick={() => grade('hard')} className="py-3 rounded-2xl font-bold bg-amber-50 text-amber-700 hover:bg-amber-100">Hard</button>
+              <button onClick={() => grade('good')} className="py-3 rounded-2xl font-bold bg-green-50 text-green-700 hover:bg-green-100">Good</button>
+            </div>
+          )}
+        </>
+      )}
+    </QuizFrame>
+  );
+};
+
+export default FlashcardQuiz;
@@ -0,0 +1,257 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, CornerDownRight, GripVertical, Plus, Redo2, StickyNote, Trash2, Undo2 } from 'lucide-react';
+import { NodeState, TreeNode } from '../types';
+import {
+  EMPTY_HISTORY, EditHistory, EditSnapshot, addChild, addSibling, findNode, findParent, indentNode, moveNode, outdentNode,
+  pruneNodeStates, recordEdit, redoEdit, removeNode, renameNode, reorderNode, resetRecall, setNodeNote, undoEdit
+} from '../utils/treeEdit';
+
+type DropPosition = 'before' | 'inside' | 'after';
+
+interface EditorActions {
+  focusId: string | null;
+  clearFocus: () => void;
+  dragId: string | null;
+  setDragId: (id: string | null) => void;
+  // Actions take the row's uncommitted text so a rename and the action land in one step.
+  rename: (id: string, text: string) => void;
+  setNote: (id: string, note: string) => void;
+  addChild: (id: string, draft?: string) => void;
+  addSibling: (id: string, draft?: string) => void;
+  remove: (id: string) => void;
+  move: (id: string, op: (tree: TreeNode, id: string) => TreeNode | null, draft?: string) => void;
+  drop: (targetId: string, position: DropPosition) => void;
+}
+
+const moveUp = (tree: TreeNode, id: string) => reorderNode(tree, id, -1);
+const moveDown = (tree: TreeNode, id: string) => reorderNode(tree, id, 1);
+
+const EditorRow: React.FC<{ node: TreeNode; editor: EditorActions; isRoot?: boolean }> = ({ node, editor, isRoot = false }) => {
+  const [draft, setDraft] = useState(node.text);
+  const [dropPosition, setDropPosition] = useState<DropPosition | null>(null);
+  const [isNoteOpen, setIsNoteOpen] = useState(false);
+  const [noteDraft, setNoteDraft] = useState(node.note ?? '');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Undo and redo change the text from outside.
+  useEffect(() => setDraft(node.text), [node.text]);
+  useEffect(() => setNoteDraft(node.note ?? ''), [node.note]);
+
+  const { focusId, clearFocus } = editor;
+  useEffect(() => {
+    if (focusId !== node.id) return;
+    inputRef.current?.focus();
+    clearFocus();
+  }, [focusId, clearFocus, node.id]);
+
+  const commitDraft = () => {
+    if (draft !== node.text) editor.rename(node.id, draft);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      editor.addSibling(node.id, draft);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      editor.move(node.id, e.shiftKey ? outdentNode : indentNode, draft);
+    } else if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault();
+      editor.move(node.id, e.key === 'ArrowUp' ? moveUp : moveDown, draft);
+    } else if (e.key === 'Backspace' && draft === '' && !isRoot) {
+      e.preventDefault();
+      editor.remove(node.id);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!editor.dragId || editor.dragId === node.id) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientY - rect.top) / rect.height;
+    setDropPosition(isRoot ? 'inside' : ratio < 0.25 ? 'before' : ratio > 0.75 ? 'after' : 'inside');
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (dropPosition) editor.drop(node.id, dropPosition);
+    setDropPosition(null);
+  };
+
+  const iconButton = 'p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50';
+
+  return (
+    <div className={isRoot ? '' : 'ml-8'}>
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDropPosition(null)}
+        onDrop={handleDrop}
+        className={`group flex items-center gap-2 my-1 px-2 py-1 rounded-xl border-2 transition-colors ${
+          dropPosition === 'inside' ? 'border-indigo-400 bg-indigo-50' : 'border-transparent'
+        } ${dropPosition === 'before' ? 'border-t-indigo-400' : ''} ${dropPosition === 'after' ? 'border-b-indigo-400' : ''}`}
+      >
+        {!isRoot && (
+          <span
+            draggable
+            onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; editor.setDragId(node.id); }}
+            onDragEnd={() => editor.setDragId(null)}
+            className="cursor-grab text-slate-300 hover:text-slate-500"
+          >
+            <GripVertical className="w-4 h-4" />
+          </span>
+        )}
+        <input
+          ref={inputRef}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={handleKeyDown}
+          placeholder="New node"
+          className={`flex-1 min-w-0 px-3 py-2 bg-white border border-slate-200 rounded-xl outline-none focus:border-indigo-400 ${isRoot ? 'text-xl font-black text-slate-900' : 'font-semibold text-slate-700'}`}
+        />
+        <div className="flex items-center opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+          <button onClick={() => setIsNoteOpen(!isNoteOpen)} title="Note" className={`${iconButton} ${node.note ? 'text-sky-500' : ''}`}><StickyNote className="w-4 h-4" /></button>
+          <button onClick={() => editor.addChild(node.id, draft)} title="Add child" className={iconButton}><CornerDownRight className="w-4 h-4" /></button>
+          {!isRoot && (
+            <>
+              <button onClick={() => editor.addSibling(node.id, draft)} title="Add sibling (Enter)" className={iconButton}><Plus className="w-4 h-4" /></button>
+              <button onClick={() => editor.move(node.id, moveUp, draft)} title="Move up (Alt+↑)" className={iconButton}><ArrowUp className="w-4 h-4" /></button>
+              <button onClick={() => editor.move(node.id, moveDown, draft)} title="Move down (Alt+↓)" className={iconButton}><ArrowDown className="w-4 h-4" /></button>
+              <button onClick={() => editor.remove(node.id)} title="Delete with children" className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50"><Trash2 className="w-4 h-4" /></button>
+            </>
+          )}
+        </div>
+      </div>
+      {isNoteOpen && (
+        <textarea
+          autoFocus
+          value={noteDraft}
+          onChange={(e) => setNoteDraft(e.target.value)}
+          onBlur={() => noteDraft.trim() !== (node.note ?? '') && editor.setNote(node.id, noteDraft)}
+          placeholder="Note shown after solving. Supports **bold**, *italic*, `code`, [links](https://…) and ![images](https://…)"
+          rows={3}
+          className="block w-full max-w-xl ml-8 mb-2 px-3 py-2 bg-sky-50 border border-sky-100 rounded-xl text-sm text-slate-600 outline-none focus:border-sky-300"
+        />
+      )}
+      {node.children.length > 0 && (
+        <div className="border-l-2 border-slate-200">
+          {node.children.map(child => <EditorRow key={child.id} node={child} editor={editor} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Outline editor for a session's tree, with undo/redo and drag-and-drop.
+const MapEditor: React.FC<{
+  tree: TreeNode;
+  nodeStates: Record<string, NodeState>;
+  onChange: (tree: TreeNode, nodeStates: Record<string, NodeState>) => void;
+}> = ({ tree, nodeStates, onChange }) => {
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+
+  const commit = (nextTree: TreeNode | null, nextStates: Record<string, NodeState> = nodeStates) => {
+    if (!nextTree) return;
+    setHistory(h => recordEdit(h, { tree, nodeStates }));
+    onChange(nextTree, nextStates);
+  };
+
+  // The current snapshot with a row's pending rename applied.
+  const withDraft = (id: string, draft?: string): EditSnapshot => {
+    const node = findNode(tree, id);
+    if (draft === undefined || !node || node.text === draft) return { tree, nodeStates };
+    return { tree: renameNode(tree, id, draft), nodeStates: resetRecall(nodeStates, id) };
+  };
+
+  const clearFocus = useCallback(() => setFocusId(null), []);
+
+  const undo = () => {
+    const result = undoEdit(history, { tree, nodeStates });
+    if (!result) return;
+    setHistory(result.history);
+    onChange(result.snapshot.tree, result.snapshot.nodeStates);
+  };
+
+  const redo = () => {
+    const result = redoEdit(history, { tree, nodeStates });
+    if (!result) return;
+    setHistory(result.history);
+    onChange(result.snapshot.tree, result.snapshot.nodeStates);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  };
+
+  const editor: EditorActions = {
+    focusId,
+    clearFocus,
+    dragId,
+    setDragId,
+    rename: (id, text) => commit(renameNode(tree, id, text), resetRecall(nodeStates, id)),
+    setNote: (id, note) => commit(setNodeNote(tree, id, note)),
+    addChild: (id, draft) => {
+      const current = withDraft(id, draft);
+      const result = addChild(current.tree, id);
+      commit(result.tree, current.nodeStates);
+      setFocusId(result.id);
+    },
+    addSibling: (id, draft) => {
+      const current = withDraft(id, draft);
+      const result = addSibling(current.tree, id);
+      commit(result.tree, current.nodeStates);
+      setFocusId(result.id);
+    },
+    remove: (id) => {
+      const node = findNode(tree, id);
+      if (node && node.children.length > 0 && !confirm(`Delete "${node.text}" and its ${node.children.length} child node(s)?`)) return;
+      const focusTarget = findParent(tree, id)?.id ?? null;
+      const result = removeNode(tree, id);
+      commit(result.tree, pruneNodeStates(nodeStates, result.removedIds));
+      setFocusId(focusTarget);
+    },
+    move: (id, op, draft) => {
+      const current = withDraft(id, draft);
+      commit(op(current.tree, id), current.nodeStates);
+      // The row remounts under its new parent, so focus has to follow it.
+      setFocusId(id);
+    },
+    drop: (targetId, position) => {
+      if (!dragId) return;
+      const parent = findParent(tree, targetId);
+      if (position === 'inside' || !parent) {
+        const target = findNode(tree, targetId);
+        commit(target && moveNode(tree, dragId, targetId, target.children.length));
+      } else {
+        const index = parent.children.findIndex(c => c.id === targetId);
+        commit(moveNode(tree, dragId, parent.id, position === 'before' ? index : index + 1));
+      }
+      setDragId(null);
+    }
+  };
+
+  return (
+    <div onKeyDown={handleKeyDown}>
+      <div className="flex items-center justify-between mb-6">
+        <p className="text-xs font-bold text-slate-400">Enter adds a sibling · Tab / Shift+Tab indents · Alt+↑↓ reorders · drag the handle to move</p>
+        <div className="flex items-center bg-white p-1 rounded-2xl ring-1 ring-slate-200 shadow-sm">
+          <button onClick={undo} disabled={history.past.length === 0} title="Undo (Ctrl+Z)" className="p-2 rounded-xl text-slate-500 hover:text-indigo-600 disabled:opacity-30"><Undo2 className="w-5 h-5" /></button>
+          <button onClick={redo} disabled={history.future.length === 0} title="Redo (Ctrl+Shift+Z)" className="p-2 rounded-xl text-slate-500 hover:text-indigo-600 disabled:opacity-30"><Redo2 className="w-5 h-5" /></button>
+        </div>
+      </div>
+      <EditorRow node={tree} editor={editor} isRoot={true} />
+    </div>
+  );
+};
+
+export default MapEditor;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { MaskingPolicy, TreeNode } from '../types';
+import { stripCloze } from '../utils/cloze';
+
+const branchOptions = (root: TreeNode): TreeNode[] => {
+  const result: TreeNode[] = [];
+  const walk = (n: TreeNode) => {
+    if (n.level > 0 && !n.isLeaf) result.push(n);
+    n.children.forEach(walk);
+  };
+  walk(root);
+  return result;
+};
+
+const optionalNumber = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+// Editor for a custom masking policy, applied directly or saved as a named preset.
+const MaskingPanel: React.FC<{
+  root: TreeNode;
+  initial: MaskingPolicy;
+  onApply: (policy: MaskingPolicy) => void;
+  onSavePreset: (name: string, policy: MaskingPolicy) => void;
+  onClose: () => void;
+}> = ({ root, initial, onApply, onSavePreset, onClose }) => {
+  const [policy, setPolicy] = useState<MaskingPolicy>(initial);
+  const [name, setName] = useState('');
+  const update = (patch: Partial<MaskingPolicy>) => setPolicy(p => ({ ...p, ...patch }));
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold text-slate-700 outline-none focus:border-indigo-400';
+  const labelClass = 'block text-[10px] font-black text-slate-400 uppercase mb-1';
+
+  return (
+    <div className="absolute top-full left-0 mt-2 w-80 bg-white rounded-2xl shadow-xl ring-1 ring-slate-200 p-5 z-30 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-slate-800">Custom masking</h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+      </div>
+      <div>
+        <label className={labelClass}>Hide</label>
+        <select value={policy.scope} onChange={(e) => update({ scope: e.target.value as MaskingPolicy['scope'] })} className={inputClass}>
+          <option value="leaves">Leaves only</option>
+          <option value="leaves-and-parents">Leaves and their parents</option>
+          <option value="all">Every node</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>From level</label>
+          <input type="number" min={1} value={policy.minLevel ?? ''} onChange={(e) => update({ minLevel: optionalNumber(e.target.value) })} placeholder="1" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>To level</label>
+          <input type="number" min={1} value={policy.maxLevel ?? ''} onChange={(e) => update({ maxLevel: optionalNumber(e.target.value) })} placeholder="any" className={inputClass} />
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>Random share: {policy.randomPercent ?? 100}%</label>
+        <input
+          type="range"
+          min={5}
+          max={100}
+          step={5}
+          value={policy.randomPercent ?? 100}
+          onChange={(e) => update({ randomPercent: Number(e.target.value) === 100 ? undefined : Number(e.target.value) })}
+          className="w-full accent-indigo-600"
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Only this branch</label>
+        <select value={policy.subtreeId ?? ''} onChange={(e) => update({ subtreeId: e.target.value || undefined })} className={inputClass}>
+          <option value="">Whole map</option>
+          {branchOptions(root).map(n => (
+            <option key={n.id} value={n.id}>{`${'  '.repeat(n.level - 1)}${stripCloze(n.text)}`}</option>
+          ))}
+        </select>
+      </div>
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-600">
+        <input type="checkbox" checked={!!policy.starredOnly} onChange={(e) => update({ starredOnly: e.target.checked || undefined })} className="accent-indigo-600" />
+        Starred nodes only
+      </label>
+      <button onClick={() => onApply(policy)} className="w-full py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700">Apply</button>
+      <div className="flex gap-2 pt-2 border-t border-slate-100">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Preset name" className={inputClass} />
+        <button
+          onClick={() => onSavePreset(name.trim(), policy)}
+          disabled={!name.trim()}
+          title="Save as preset"
+          className="px-3 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 disabled:opacity-40"
+        >
+          <Save className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MaskingPanel;
@@ -0,0 +1,231 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { GitFork, Orbit, Scan, ZoomIn, ZoomOut } from 'lucide-react';
+import { Attempt, CanvasLayout, NodeState, Session, TreeNode } from '../types';
+import { PositionedNode, layoutTree } from '../utils/layout';
+import NodeCard from './NodeCard';
+
+interface Transform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+const MIN_SCALE = 0.15;
+const MAX_SCALE = 2.5;
+const CARD_WIDTH = 360;
+const CARD_HEIGHT = 64;
+const FIT_PADDING = 120;
+
+const clampScale = (k: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, k));
+
+// Scales around a fixed screen point (cursor or pinch centre).
+const zoomAround = (t: Transform, factor: number, cx: number, cy: number): Transform => {
+  const k = clampScale(t.k * factor);
+  return { k, x: cx - (cx - t.x) * (k / t.k), y: cy - (cy - t.y) * (k / t.k) };
+};
+
+// SVG rendering of the study tree with pan, zoom and pinch; cards reuse the list view's NodeCard.
+const MindMapCanvas: React.FC<{
+  session: Session;
+  isMasked: (n: TreeNode) => boolean;
+  // Filter on the nodes; null shows everything.
+  isShown: ((n: TreeNode) => boolean) | null;
+  layout: CanvasLayout;
+  // Center on this node; a new object repeats the jump.
+  jumpTarget: { nodeId: string } | null;
+  onLayoutChange: (layout: CanvasLayout) => void;
+  onUpdateNode: (nodeId: string, state: Partial<NodeState>) => void;
+  onAttempt: (attempt: Attempt) => void;
+  onFocusBranch: (nodeId: string) => void;
+}> = ({ session, isMasked, isShown, layout, jumpTarget, onLayoutChange, onUpdateNode, onAttempt, onFocusBranch }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const [transform, setTransform] = useState<Transform>({ x: 0, y: 0, k: 1 });
+  const [isAnimating, setIsAnimating] = useState(false);
+  const [focusNodeId, setFocusNodeId] = useState<string | null>(null);
+  const isFiltered = isShown !== null;
+
+  // Answers, hints and stars move nothing; only collapsing or expanding a node changes the layout.
+  const collapsedKey = useMemo(
+    () => Object.keys(session.nodeStates).filter(id => session.nodeStates[id].isCollapsed).sort().join('\n'),
+    [session.nodeStates]
+  );
+
+  const { nodes, bounds } = useMemo(() => {
+    const collapsed = new Set(collapsedKey.split('\n'));
+    const visibleChildren = (n: TreeNode) =>
+      collapsed.has(n.id) ? [] : isShown ? n.children.filter(isShown) : n.children;
+    return layoutTree(session.data, visibleChildren, layout);
+  }, [session.data, collapsedKey, isShown, layout]);
+
+  const byId = useMemo(() => new Map(nodes.map(n => [n.node.id, n])), [nodes]);
+
+  const fitToScreen = useCallback(() => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || nodes.length === 0) return;
+    const left = bounds.minX - (layout === 'radial' ? CARD_WIDTH / 2 : 0) - FIT_PADDING;
+    const right = bounds.maxX + (layout === 'radial' ? CARD_WIDTH / 2 : CARD_WIDTH) + FIT_PADDING;
+    const top = bounds.minY - CARD_HEIGHT / 2 - FIT_PADDING;
+    const bottom = bounds.maxY + CARD_HEIGHT / 2 + FIT_PADDING;
+    const k = clampScale(Math.min(rect.width / (right - left), rect.height / (bottom - top), 1.2));
+    setIsAnimating(true);
+    setTransform({
+      k,
+      x: rect.width / 2 - ((left + right) / 2) * k,
+      y: rect.height / 2 - ((top + bottom) / 2) * k
+    });
+  }, [bounds, layout, nodes.length]);
+
+  // Refit only when the layout changes, not on every progress update.
+  const fitRef = useRef(fitToScreen);
+  fitRef.current = fitToScreen;
+
+  useEffect(() => fitRef.current(), [layout, isFiltered]);
+
+  useEffect(() => {
+    if (jumpTarget) setFocusNodeId(jumpTarget.nodeId);
+  }, [jumpTarget]);
+
+  // After a collapse or expand, or a jump from search, keep the node in view.
+  useEffect(() => {
+    if (!focusNodeId) return;
+    const target = byId.get(focusNodeId);
+    const rect = containerRef.current?.getBoundingClientRect();
+    setFocusNodeId(null);
+    if (!target || !rect) return;
+    const anchorX = layout === 'radial' ? target.x : target.x + CARD_WIDTH / 2;
+    setIsAnimating(true);
+    setTransform(t => ({ k: t.k, x: rect.width / 2 - anchorX * t.k, y: rect.height / 2 - target.y * t.k }));
+  }, [byId, focusNodeId, layout]);
+
+  const zoomCenter = (factor: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setIsAnimating(true);
+    setTransform(t => zoomAround(t, factor, rect.width / 2, rect.height / 2));
+  };
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      setIsAnimating(false);
+      setTransform(t => zoomAround(t, Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if ((e.target as Element).closest('[data-node]')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setIsAnimating(false);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const prev = pointers.current.get(e.pointerId);
+    if (!prev) return;
+    const active = Array.from(pointers.current.entries());
+    if (active.length === 1) {
+      setTransform(t => ({ ...t, x: t.x + e.clientX - prev.x, y: t.y + e.clientY - prev.y }));
+    } else if (active.length === 2) {
+      const other = active.find(([id]) => id !== e.pointerId)![1];
+      const rect = e.currentTarget.getBoundingClientRect();
+      const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+      const after = Math.hypot(e.clientX - other.x, e.clientY - other.y);
+      const midX = (e.clientX + other.x) / 2 - rect.left;
+      const midY = (e.clientY + other.y) / 2 - rect.top;
+      setTransform(t => {
+        const panned = { ...t, x: t.x + (e.clientX - prev.x) / 2, y: t.y + (e.clientY - prev.y) / 2 };
+        return before > 0 ? zoomAround(panned, after / before, midX, midY) : panned;
+      });
+    }
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+  const edgePath = (from: PositionedNode, to: PositionedNode) => {
+    if (layout === 'radial') return `M ${from.x} ${from.y} L ${to.x} ${to.y}`;
+    // Starts under the opaque parent card, so the curve appears to leave its right edge whatever its width.
+    const midX = (from.x + CARD_WIDTH / 2 + to.x) / 2;
+    return `M ${from.x + 24} ${from.y} C ${midX} ${from.y}, ${midX} ${to.y}, ${to.x} ${to.y}`;
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 overflow-hidden">
+      <svg
+        ref={svgRef}
+        className="w-full h-full cursor-grab active:cursor-grabbing"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <g
+          style={{
+            transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.k})`,
+            transformOrigin: '0 0',
+            transition: isAnimating ? 'transform 300ms ease-out' : 'none'
+          }}
+          onTransitionEnd={() => setIsAnimating(false)}
+        >
+          {nodes.map(n => {
+            const parent = n.parentId ? byId.get(n.parentId) : undefined;
+            return parent && <path key={`edge-${n.node.id}`} d={edgePath(parent, n)} fill="none" stroke="#cbd5e1" strokeWidth={2} />;
+          })}
+          {nodes.map(n => {
+            const nodeState = session.nodeStates[n.node.id] || { isSolved: false, isStarred: false, isCollapsed: false, hintCount: 0 };
+            return (
+              <foreignObject
+                key={n.node.id}
+                x={layout === 'radial' ? n.x - CARD_WIDTH / 2 : n.x}
+                y={n.y - CARD_HEIGHT / 2}
+                width={CARD_WIDTH}
+                height={CARD_HEIGHT}
+                style={{ overflow: 'visible' }}
+              >
+                <div data-node={n.node.id} className={`h-full flex items-center ${layout === 'radial' ? 'justify-center' : ''}`}>
+                  <div className="group bg-white/95 rounded-2xl shadow-sm ring-1 ring-slate-200">
+                    <NodeCard
+                      node={n.node}
+                      nodeState={nodeState}
+                      masked={isMasked(n.node)}
+                      typoTolerance={session.typoTolerance}
+                      onUpdateNode={onUpdateNode}
+                      onAttempt={onAttempt}
+                      onToggleCollapse={() => {
+                        setFocusNodeId(n.node.id);
+                        onUpdateNode(n.node.id, { isCollapsed: !nodeState.isCollapsed });
+                      }}
+                      onFocusBranch={n.node.id !== session.data.id && n.node.children.length > 0 ? () => onFocusBranch(n.node.id) : undefined}
+                    />
+                  </div>
+                </div>
+              </foreignObject>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="absolute bottom-6 right-6 flex items-center gap-1 bg-white p-1.5 rounded-2xl shadow-lg ring-1 ring-slate-200 z-10">
+        <button onClick={() => onLayoutChange('tree')} title="Tree layout" className={`p-2 rounded-xl ${layout === 'tree' ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}><GitFork className="w-5 h-5 -rotate-90" /></button>
+        <button onClick={() => onLayoutChange('radial')} title="Radial layout" className={`p-2 rounded-xl ${layout === 'radial' ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}><Orbit className="w-5 h-5" /></button>
+        <div className="w-px h-6 bg-slate-200 mx-1"></div>
+        <button onClick={() => zoomCenter(1 / 1.25)} title="Zoom out" className="p-2 rounded-xl text-slate-400 hover:text-slate-600"><ZoomOut className="w-5 h-5" /></button>
+        <button onClick={() => zoomCenter(1.25)} title="Zoom in" className="p-2 rounded-xl text-slate-400 hover:text-slate-600"><ZoomIn className="w-5 h-5" /></button>
+        <button onClick={fitToScreen} title="Fit to screen" className="p-2 rounded-xl text-slate-400 hover:text-slate-600"><Scan className="w-5 h-5" /></button>
+      </div>
+    </div>
+  );
+};
+
+export default MindMapCanvas;
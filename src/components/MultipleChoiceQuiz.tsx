@@ -0,0 +1,69 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Attempt, NodeState, Session, TreeNode } from '../types';
+import { primaryAnswer } from '../utils/answers';
+import { buildChoices, collectQuizItems, formatPath, solvedUpdate } from '../utils/quiz';
+import { gradeRecall } from '../utils/scheduler';
+import QuizFrame from './QuizFrame';
+
+// Picks the node text for a path from sibling and cousin distractors.
+const MultipleChoiceQuiz: React.FC<{
+  session: Session;
+  isMasked: (n: TreeNode) => boolean;
+  onUpdateNode: (nodeId: string, state: Partial<NodeState>) => void;
+  onAttempt: (attempt: Attempt) => void;
+}> = ({ session, isMasked, onUpdateNode, onAttempt }) => {
+  const [queue, setQueue] = useState(() => collectQuizItems(session.data, session.nodeStates, isMasked));
+  const [wrongChoices, setWrongChoices] = useState<string[]>([]);
+  const shownAtRef = useRef(Date.now());
+  const current = queue[0];
+  const choices = useMemo(() => (current ? buildChoices(current, session.data) : []), [current, session.data]);
+
+  const choose = (choice: string) => {
+    if (!current) return;
+    const state = session.nodeStates[current.node.id];
+    const correct = choice === primaryAnswer(current.node.text);
+    const now = Date.now();
+    onAttempt({
+      nodeId: current.node.id,
+      at: now,
+      correct,
+      answer: choice,
+      hintsUsed: state?.hintCount || 0,
+      durationMs: now - shownAtRef.current,
+      mode: 'choice'
+    });
+    shownAtRef.current = now;
+    if (!correct) {
+      setWrongChoices([...wrongChoices, choice]);
+      return;
+    }
+    onUpdateNode(current.node.id, solvedUpdate(state, gradeRecall(state?.hintCount || 0, wrongChoices.length)));
+    setWrongChoices([]);
+    setQueue(queue.slice(1));
+  };
+
+  return (
+    <QuizFrame title="Multiple Choice" path={current ? formatPath(current.path) : ''} remaining={queue.length}>
+      {current && (
+        <div className="grid grid-cols-1 gap-3">
+          {choices.map(choice => {
+            const isWrong = wrongChoices.includes(choice);
+            return (
+              <button
+                key={choice}
+                disabled={isWrong}
+                onClick={() => choose(choice)}
+                className={`px-5 py-4 rounded-2xl border-2 text-left font-bold transition-all ${isWrong ? 'border-red-200 bg-red-50 text-red-400 line-through' : 'border-slate-200 text-slate-700 hover:border-indigo-400 hover:bg-indigo-50'}`}
+              >
+                {choice}
+              </button>
+            );
+          })}
+          {choices.length < 2 && <p className="text-sm text-slate-400">Not enough other nodes to build distractors; pick the answer to continue.</p>}
+        </div>
+      )}
+    </QuizFrame>
+  );
+};
+
+export default MultipleChoiceQuiz;
@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, ChevronDown, ChevronRight, Focus, HelpCircle, Star, StickyNote } from 'lucide-react';
+import { AnswerDraft, Attempt, NodeState, TreeNode, TypoTolerance } from '../types';
+import { DEFAULT_MATCH_OPTIONS, matchAnswer, primaryAnswer } from '../utils/answers';
+import { parseCloze, stripCloze } from '../utils/cloze';
+import { gradeRecall, isDue, scheduleReview } from '../utils/scheduler';
+import NoteView from './NoteView';
+
+// The recall pill shared by the list and canvas views: collapse toggle, input or label, hint and star.
+const NodeCard: React.FC<{
+  node: TreeNode;
+  nodeState: NodeState;
+  masked: boolean;
+  typoTolerance?: TypoTolerance;
+  onUpdateNode: (nodeId: string, state: Partial<NodeState>) => void;
+  onAttempt?: (attempt: Attempt) => void;
+  onToggleCollapse?: () => void;
+  onFocusBranch?: () => void;
+  // Keeps typed answers by node id while the card is unmounted, e.g. scrolled out of a virtual list.
+  drafts?: Map<string, AnswerDraft>;
+}> = ({ node, nodeState, masked, typoTolerance, onUpdateNode, onAttempt, onToggleCollapse, onFocusBranch, drafts }) => {
+  const [inputValue, setInputValue] = useState(() => drafts?.get(node.id)?.input ?? '');
+  const [isError, setIsError] = useState(false);
+  const [missCount, setMissCount] = useState(0);
+  const [blankInputs, setBlankInputs] = useState<Record<number, string>>(() => drafts?.get(node.id)?.blanks ?? {});
+  const [blankError, setBlankError] = useState<number | null>(null);
+  // null follows the default: notes open once the node is solved.
+  const [showNote, setShowNote] = useState<boolean | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Time to answer runs from the first focus (or previous attempt) to submission.
+  const startedAtRef = useRef<number | null>(null);
+
+  const isMasked = masked && !nodeState.isSolved && isDue(nodeState);
+  const segments = parseCloze(node.text);
+  const blanks = segments.flatMap(s => (s.kind === 'blank' ? [s] : []));
+  const matchOptions = { ...DEFAULT_MATCH_OPTIONS, typoTolerance: typoTolerance ?? DEFAULT_MATCH_OPTIONS.typoTolerance };
+  const noteVisible = !!node.note && (showNote ?? nodeState.isSolved);
+
+  useEffect(() => {
+    if (!drafts) return;
+    if (inputValue || Object.values(blankInputs).some(Boolean)) drafts.set(node.id, { input: inputValue, blanks: blankInputs });
+    else drafts.delete(node.id);
+  }, [drafts, node.id, inputValue, blankInputs]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setInputValue(e.target.value);
+    setIsError(false);
+  };
+
+  const buildAttempt = (answer: string, result: string): Attempt => {
+    const now = Date.now();
+    const attempt: Attempt = {
+      nodeId: node.id,
+      at: now,
+      correct: result !== 'wrong',
+      close: result === 'close',
+      answer,
+      hintsUsed: nodeState.hintCount || 0,
+      durationMs: now - (startedAtRef.current ?? now),
+      mode: 'recall'
+    };
+    startedAtRef.current = now;
+    return attempt;
+  };
+
+  const checkAnswer = () => {
+    const result = matchAnswer(inputValue, node.text, matchOptions);
+    const attempt = buildAttempt(inputValue, result);
+
+    if (result !== 'wrong') {
+      const outcome = gradeRecall(nodeState.hintCount || 0, missCount, result === 'close');
+      onUpdateNode(node.id, { isSolved: true, solvedWith: result, schedule: scheduleReview(nodeState.schedule, outcome) });
+      onAttempt?.(attempt);
+      setInputValue('');
+      setIsError(false);
+      setMissCount(0);
+    } else {
+      onAttempt?.(attempt);
+      setMissCount(missCount + 1);
+      setIsError(true);
+      setTimeout(() => setIsError(false), 500);
+    }
+  };
+
+  // Each blank is graded on its own; the node is solved once every blank is.
+  const checkBlank = (index: number, answer: string) => {
+    const value = blankInputs[index] || '';
+    const result = matchAnswer(value, answer, matchOptions);
+    const attempt = buildAttempt(value, result);
+    if (result === 'wrong') {
+      onAttempt?.(attempt);
+      setMissCount(missCount + 1);
+      setBlankError(index);
+      setTimeout(() => setBlankError(null), 500);
+      return;
+    }
+    const openBlanks = { ...blankInputs };
+    delete openBlanks[index];
+    setBlankInputs(openBlanks);
+    const solvedBlanks = { ...nodeState.solvedBlanks, [index]: result };
+    const results = Object.values(solvedBlanks);
+    if (results.length < blanks.length) {
+      onUpdateNode(node.id, { solvedBlanks });
+    } else {
+      const anyClose = results.includes('close');
+      const outcome = gradeRecall(nodeState.hintCount || 0, missCount, anyClose);
+      onUpdateNode(node.id, { solvedBlanks, isSolved: true, solvedWith: anyClose ? 'close' : 'exact', schedule: scheduleReview(nodeState.schedule, outcome) });
+      setMissCount(0);
+    }
+    onAttempt?.(attempt);
+  };
+
+  const revealHint = (answer: string, count: number) => {
+    if (count === 1) return answer.charAt(0);
+    if (count === 2) return answer.substring(0, Math.min(3, answer.length));
+    return answer;
+  };
+
+  const provideHint = () => {
+    const nextCount = (nodeState.hintCount || 0) + 1;
+    onUpdateNode(node.id, { hintCount: nextCount });
+
+    // With cloze blanks the hint goes to the first unanswered blank.
+    const blank = blanks.find(b => !nodeState.solvedBlanks?.[b.index]);
+    if (blank) {
+      setBlankInputs({ ...blankInputs, [blank.index]: revealHint(primaryAnswer(blank.answer), nextCount) });
+      return;
+    }
+    setInputValue(revealHint(primaryAnswer(node.text), nextCount));
+    inputRef.current?.focus();
+  };
+
+  const blankInputClass = (index: number) =>
+    `h-9 px-3 border-2 rounded-lg outline-none transition-all font-bold w-32 text-sm ${blankError === index ? 'border-red-400 bg-red-50 text-red-900 shake' : 'border-white focus:border-indigo-400 bg-white shadow-sm'}`;
+
+  return (
+    <div data-node-card={node.id} className="flex flex-col">
+      <div className={`flex items-center gap-3 p-1.5 rounded-2xl transition-all duration-500 ${isMasked ? 'bg-slate-200/50 pr-3 shadow-inner' : 'bg-transparent'}`}>
+        {node.children.length > 0 && (
+          <button 
+            onClick={onToggleCollapse ?? (() => onUpdateNode(node.id, { isCollapsed: !nodeState.isCollapsed }))}
+            aria-label={nodeState.isCollapsed ? 'Expand' : 'Collapse'}
+            tabIndex={-1}
+            className={`p-2 rounded-xl transition-all ${nodeState.isCollapsed ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+          >
+            {nodeState.isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+        )}
+
+        {isMasked && blanks.length > 0 ? (
+          <div className="flex items-center gap-2">
+            <div className={`flex flex-wrap items-center gap-1.5 px-2 ${node.level === 0 ? 'text-2xl font-black text-indigo-900' : 'text-base font-bold text-slate-700'}`}>
+              {segments.map((segment, i) => segment.kind === 'text' ? (
+                <span key={i} className="whitespace-pre">{segment.text}</span>
+              ) : nodeState.solvedBlanks?.[segment.index] ? (
+                <span key={i} className={`px-2 rounded-lg ${nodeState.solvedBlanks[segment.index] === 'close' ? 'bg-amber-50 text-amber-700' : 'bg-green-50 text-green-700'}`}>{primaryAnswer(segment.answer)}</span>
+              ) : (
+                <input
+                  key={i}
+                  type="text"
+                  data-recall-input
+                  aria-label={`Blank ${segment.index + 1} of ${blanks.length}`}
+                  aria-invalid={blankError === segment.index}
+                  value={blankInputs[segment.index] || ''}
+                  onChange={(e) => { setBlankInputs({ ...blankInputs, [segment.index]: e.target.value }); setBlankError(null); }}
+                  onFocus={() => { startedAtRef.current ??= Date.now(); }}
+                  onKeyDown={(e) => e.key === 'Enter' && checkBlank(segment.index, segment.answer)}
+                  placeholder="..."
+                  className={blankInputClass(segment.index)}
+                />
+              ))}
+            </div>
+            <button
+              onClick={provideHint}
+              data-action="hint"
+              aria-label="Show hint (Alt+H)"
+              tabIndex={-1}
+              className="p-2.5 bg-white border border-slate-200 text-slate-400 hover:text-indigo-600 hover:border-indigo-200 rounded-xl transition-all shadow-sm active:scale-95"
+            >
+              <HelpCircle className="w-5 h-5" />
+            </button>
+          </div>
+        ) : isMasked ? (
+          <div className="flex items-center gap-2">
+            <input
+              ref={inputRef}
+              type="text"
+              data-recall-input
+              aria-label={`Hidden node, level ${node.level}${nodeState.hintCount ? `, ${nodeState.hintCount} hint(s) used` : ''}`}
+              aria-invalid={isError}
+              value={inputValue}
+              onChange={handleInputChange}
+              onFocus={() => { startedAtRef.current ??= Date.now(); }}
+              onKeyDown={(e) => e.key === 'Enter' && checkAnswer()}
+              placeholder="Type to recall..."
+              className={`h-11 px-5 py-2 border-2 rounded-xl outline-none transition-all font-bold w-48 sm:w-64 text-sm ${isError ? 'border-red-400 bg-red-50 text-red-900 shake' : 'border-white focus:border-indigo-400 bg-white shadow-sm focus:shadow-indigo-100'}`}
+            />
+            <button 
+              onClick={provideHint}
+              data-action="hint"
+              aria-label="Show hint (Alt+H)"
+              tabIndex={-1}
+              className="p-2.5 bg-white border border-slate-200 text-slate-400 hover:text-indigo-600 hover:border-indigo-200 rounded-xl transition-all shadow-sm active:scale-95"
+            >
+              <HelpCircle className="w-5 h-5" />
+            </button>
+          </div>
+        ) : (
+          <div className={`flex items-center gap-3 px-5 py-2.5 rounded-2xl transition-all duration-500 ${nodeState.isSolved ? (nodeState.solvedWith === 'close' ? 'bg-amber-50 text-amber-700 ring-2 ring-amber-100' : 'bg-green-50 text-green-700 ring-2 ring-green-100') : 'text-slate-700'} ${node.level === 0 ? 'text-2xl font-black text-indigo-900' : 'text-base font-bold'}`}>
+            {nodeState.isSolved && <CheckCircle2 className={`w-4 h-4 ${nodeState.solvedWith === 'close' ? 'text-amber-500' : 'text-green-500'}`} />}
+            <span className="whitespace-nowrap">{stripCloze(node.text)}</span>
+          </div>
+        )}
+
+        <button 
+          onClick={() => onUpdateNode(node.id, { isStarred: !nodeState.isStarred })}
+          data-action="star"
+          aria-label="Star (Alt+S)"
+          aria-pressed={nodeState.isStarred}
+          className={`p-2 rounded-xl transition-all outline-none focus-visible:ring-2 focus-visible:ring-indigo-400 ${nodeState.isStarred ? 'text-amber-500 scale-110' : 'text-slate-300 hover:text-amber-400'}`}
+        >
+          <Star className={`w-5 h-5 ${nodeState.isStarred ? 'fill-amber-500' : ''}`} />
+        </button>
+
+        {onFocusBranch && (
+          <button
+            onClick={onFocusBranch}
+            data-action="focus-branch"
+            aria-label="Focus this branch (Alt+F)"
+            className="p-2 rounded-xl transition-all outline-none focus-visible:ring-2 focus-visible:ring-indigo-400 text-slate-300 hover:text-indigo-500"
+          >
+            <Focus className="w-5 h-5" />
+          </button>
+        )}
+
+        {node.note && (
+          <button
+            onClick={() => setShowNote(!noteVisible)}
+            aria-label={noteVisible ? 'Hide note' : 'Show note'}
+            aria-expanded={noteVisible}
+            tabIndex={-1}
+            className={`p-2 rounded-xl transition-all ${noteVisible ? 'text-sky-500' : 'text-slate-300 hover:text-sky-500'}`}
+          >
+            <StickyNote className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+      {noteVisible && node.note && <NoteView note={node.note} />}
+    </div>
+  );
+};
+
+export default NodeCard;
@@ -0,0 +1,47 @@
+import React from 'react';
+
+// Images, links, bold, italic, inline code and bare URLs; nothing is injected as HTML.
+const INLINE_RE = /!\[([^\]]*)\]\(([^)\s]+)\)|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|\*(.+?)\*|`([^`]+)`|(https?:\/\/[^\s)]+)/g;
+const IMAGE_URL_RE = /\.(png|jpe?g|gif|webp|svg)(\?\S*)?$/i;
+
+const safeUrl = (url: string): string | null => (/^(https?:|mailto:)/i.test(url) ? url : null);
+
+const renderInline = (text: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(INLINE_RE)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) nodes.push(text.slice(lastIndex, start));
+    const key = nodes.length;
+    const [whole, alt, imageUrl, label, linkUrl, bold, italic, code, bareUrl] = match;
+    const image = safeUrl(imageUrl ?? (bareUrl && IMAGE_URL_RE.test(bareUrl) ? bareUrl : ''));
+    const link = safeUrl(linkUrl ?? bareUrl ?? '');
+    if (image) nodes.push(<img key={key} src={image} alt={alt ?? ''} className="my-2 max-h-48 rounded-xl" />);
+    else if (link) nodes.push(<a key={key} href={link} target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline">{label ? renderInline(label) : link}</a>);
+    else if (bold) nodes.push(<strong key={key}>{renderInline(bold)}</strong>);
+    else if (italic) nodes.push(<em key={key}>{renderInline(italic)}</em>);
+    else if (code) nodes.push(<code key={key} className="px-1 bg-slate-100 rounded font-mono text-[0.9em]">{code}</code>);
+    else nodes.push(label ?? whole);
+    lastIndex = start + whole.length;
+  }
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+};
+
+// A node's note: paragraphs separated by blank lines, with simple inline Markdown.
+const NoteView: React.FC<{ note: string }> = ({ note }) => (
+  <div className="max-w-md mt-2 px-4 py-3 bg-sky-50 border border-sky-100 rounded-2xl text-sm text-slate-600 space-y-2">
+    {note.split(/\n\s*\n/).map((paragraph, i) => (
+      <p key={i}>
+        {paragraph.split('\n').map((line, j) => (
+          <React.Fragment key={j}>
+            {j > 0 && <br />}
+            {renderInline(line)}
+          </React.Fragment>
+        ))}
+      </p>
+    ))}
+  </div>
+);
+
+export default NoteView;
@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { Attempt, NodeState, Session, TreeNode } from '../types';
+import { stripCloze } from '../utils/cloze';
+import { collectOrderingItems, formatPath, isInOrder, isInPlace, shuffleChildren, solvedUpdate } from '../utils/quiz';
+import { gradeRecall } from '../utils/scheduler';
+import QuizFrame from './QuizFrame';
+
+// Arrange a parent's children back into their original order.
+const OrderingQuiz: React.FC<{
+  session: Session;
+  isMasked: (n: TreeNode) => boolean;
+  onUpdateNode: (nodeId: string, state: Partial<NodeState>) => void;
+  onAttempt: (attempt: Attempt) => void;
+}> = ({ session, isMasked, onUpdateNode, onAttempt }) => {
+  const [queue, setQueue] = useState(() => collectOrderingItems(session.data, session.nodeStates, isMasked));
+  const [order, setOrder] = useState<TreeNode[]>(() => (queue[0] ? shuffleChildren(queue[0].parent) : []));
+  const [misses, setMisses] = useState(0);
+  const [checked, setChecked] = useState(false);
+  const shownAtRef = useRef(Date.now());
+  const current = queue[0];
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    setOrder(next);
+    setChecked(false);
+  };
+
+  const check = () => {
+    if (!current) return;
+    const correct = isInOrder(order, current.parent);
+    const now = Date.now();
+    onAttempt({
+      nodeId: current.parent.id,
+      at: now,
+      correct,
+      answer: order.map(c => c.text).join(' | '),
+      hintsUsed: 0,
+      durationMs: now - shownAtRef.current,
+      mode: 'ordering'
+    });
+    shownAtRef.current = now;
+    if (!correct) {
+      setMisses(misses + 1);
+      setChecked(true);
+      return;
+    }
+    current.parent.children.filter(isMasked).forEach(child => {
+      const state = session.nodeStates[child.id];
+      if (!state?.isSolved) onUpdateNode(child.id, solvedUpdate(state, gradeRecall(state?.hintCount || 0, misses)));
+    });
+    const rest = queue.slice(1);
+    setQueue(rest);
+    setOrder(rest[0] ? shuffleChildren(rest[0].parent) : []);
+    setMisses(0);
+    setChecked(false);
+  };
+
+  return (
+    <QuizFrame title="Ordering" path={current ? formatPath([...current.path, current.parent]) : ''} remaining={queue.length}>
+      {current && (
+        <>
+          <ol className="space-y-2">
+            {order.map((child, i) => {
+              const isWrong = checked && !isInPlace(order, current.parent, i);
+              return (
+                <li key={child.id} className={`flex items-center gap-3 px-4 py-3 rounded-2xl border-2 font-bold ${isWrong ? 'border-red-200 bg-red-50 text-red-700' : 'border-slate-200 text-slate-700'}`}>
+                  <span className="text-xs font-black text-slate-300 w-5">{i + 1}</span>
+                  <span className="flex-1 break-words">{stripCloze(child.text)}</span>
+                  <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-30"><ArrowUp className="w-4 h-4" /></button>
+                  <button onClick={() => move(i, 1)} disabled={i === order.length - 1} className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-30"><ArrowDown className="w-4 h-4" /></button>
+                </li>
+              );
+            })}
+          </ol>
+          <button onClick={check} className="w-full mt-6 py-3 rounded-2xl font-bold bg-indigo-600 text-white hover:bg-indigo-700">Check order</button>
+        </>
+      )}
+    </QuizFrame>
+  );
+};
+
+export default OrderingQuiz;
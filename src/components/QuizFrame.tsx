@@ -0,0 +1,35 @@
+import React from 'react';
+import { PartyPopper } from 'lucide-react';
+
+// Shared card chrome for the quiz modes: breadcrumb, remaining count and the "all done" state.
+const QuizFrame: React.FC<{
+  title: string;
+  path: string;
+  remaining: number;
+  children: React.ReactNode;
+}> = ({ title, path, remaining, children }) => {
+  if (remaining === 0) {
+    return (
+      <div className="max-w-xl mx-auto mt-16 p-12 bg-white rounded-3xl border border-slate-200 shadow-sm text-center">
+        <PartyPopper className="w-10 h-10 text-indigo-500 mx-auto mb-4" />
+        <h2 className="text-2xl font-black text-slate-800">All caught up</h2>
+        <p className="text-slate-500 mt-2">Nothing left to practise in {title.toLowerCase()} at this level.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto mt-8">
+      <div className="flex items-center justify-between mb-4 px-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase">{title}</span>
+        <span className="text-xs font-black text-indigo-600">{remaining} left</span>
+      </div>
+      <div className="p-8 bg-white rounded-3xl border border-slate-200 shadow-sm">
+        {path && <p className="text-xs font-bold text-slate-400 mb-6 truncate">{path}</p>}
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default QuizFrame;
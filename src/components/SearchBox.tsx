@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import { TreeNode } from '../types';
+import { stripCloze } from '../utils/cloze';
+import { SearchResult, searchTree } from '../utils/search';
+
+// Study-header search; only nodes already on show are matched, so it never gives an answer away.
+const SearchBox: React.FC<{
+  root: TreeNode;
+  isSearchable: (n: TreeNode) => boolean;
+  onPick: (nodeId: string) => void;
+}> = ({ root, isSearchable, onPick }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [active, setActive] = useState(0);
+
+  const results = isOpen ? searchTree(root, query, isSearchable) : [];
+
+  // Options swallow mousedown, so the input keeps focus and its blur does not close the list before the click lands.
+  const pick = (result: SearchResult) => {
+    onPick(result.node.id);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const keys: Record<string, () => void> = {
+      ArrowDown: () => setActive(Math.min(active + 1, results.length - 1)),
+      ArrowUp: () => setActive(Math.max(active - 1, 0)),
+      Enter: () => results[active] && pick(results[active]),
+      Escape: () => {
+        setQuery('');
+        setIsOpen(false);
+      }
+    };
+    if (!keys[e.key]) return;
+    e.preventDefault();
+    keys[e.key]();
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+      <input
+        data-search-input
+        role="combobox"
+        aria-label="Search visible nodes (/)"
+        aria-expanded={isOpen && !!query.trim()}
+        aria-controls="node-search-results"
+        aria-activedescendant={results[active] ? `node-search-result-${active}` : undefined}
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setActive(0); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search…"
+        className="w-36 lg:w-52 pl-9 pr-3 py-2 bg-slate-100 rounded-xl text-sm font-semibold text-slate-700 outline-none focus:bg-white focus:ring-2 focus:ring-indigo-200"
+      />
+      {isOpen && query.trim() && (
+        <ul id="node-search-results" role="listbox" className="absolute top-full left-0 mt-2 w-80 max-h-96 overflow-auto bg-white rounded-2xl shadow-xl ring-1 ring-slate-200 p-2 z-30">
+          {results.map((result, i) => (
+            <li
+              key={result.node.id}
+              id={`node-search-result-${i}`}
+              role="option"
+              aria-selected={i === active}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(result)}
+              onMouseEnter={() => setActive(i)}
+              className={`px-3 py-2 rounded-xl cursor-pointer ${i === active ? 'bg-indigo-50' : ''}`}
+            >
+              <p className="text-sm font-bold text-slate-700 truncate">{stripCloze(result.node.text)}</p>
+              {result.path.length > 0 && <p className="text-xs font-semibold text-slate-400 truncate">{result.path.join(' › ')}</p>}
+            </li>
+          ))}
+          {results.length === 0 && <li className="px-3 py-2 text-sm font-semibold text-slate-400">No visible node matches</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Session } from '../types';
+import { parseTags, sessionTitle } from '../utils/library';
+
+// Inline editor for a dashboard entry's title, course and tags; blank fields are cleared.
+const SessionDetailsForm: React.FC<{
+  session: Session;
+  courses: string[];
+  onSave: (details: Pick<Session, 'title' | 'course' | 'tags'>) => void;
+  onCancel: () => void;
+}> = ({ session, courses, onSave, onCancel }) => {
+  const [title, setTitle] = useState(sessionTitle(session));
+  const [course, setCourse] = useState(session.course ?? '');
+  const [tags, setTags] = useState((session.tags || []).join(', '));
+
+  const inputClass = 'w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-semibold text-slate-700 outline-none focus:border-indigo-400';
+  const labelClass = 'block text-[10px] font-black text-slate-400 uppercase mb-1';
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedTags = parseTags(tags);
+    onSave({
+      title: title.trim() && title.trim() !== session.fileName ? title.trim() : undefined,
+      course: course.trim() || undefined,
+      tags: parsedTags.length > 0 ? parsedTags : undefined
+    });
+  };
+
+  return (
+    <form onSubmit={save} onKeyDown={(e) => e.key === 'Escape' && onCancel()} className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-4 p-4 bg-slate-50 rounded-2xl">
+      <div>
+        <label htmlFor={`title-${session.id}`} className={labelClass}>Title</label>
+        <input id={`title-${session.id}`} autoFocus value={title} onChange={(e) => setTitle(e.target.value)} placeholder={session.fileName} className={inputClass} />
+      </div>
+      <div>
+        <label htmlFor={`course-${session.id}`} className={labelClass}>Course</label>
+        <input id={`course-${session.id}`} list="course-names" value={course} onChange={(e) => setCourse(e.target.value)} placeholder="None" className={inputClass} />
+        <datalist id="course-names">
+          {courses.map(c => <option key={c} value={c} />)}
+        </datalist>
+      </div>
+      <div>
+        <label htmlFor={`tags-${session.id}`} className={labelClass}>Tags (comma separated)</label>
+        <input id={`tags-${session.id}`} value={tags} onChange={(e) => setTags(e.target.value)} placeholder="exam, week 3" className={inputClass} />
+      </div>
+      <div className="md:col-span-3 flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-slate-400 font-bold text-sm hover:text-slate-600">Cancel</button>
+        <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-xl font-bold text-sm hover:bg-indigo-700">Save</button>
+      </div>
+    </form>
+  );
+};
+
+export default SessionDetailsForm;
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+
+const SHORTCUTS: [string, string][] = [
+  ['↑ / ↓', 'Previous / next node'],
+  ['→ / ←', 'Expand or go to child / collapse or go to parent'],
+  ['Home / End', 'First / last node'],
+  ['Enter', 'Focus the recall input, or submit it'],
+  ['Tab / Shift+Tab', 'Next / previous unanswered node'],
+  ['Esc', 'Leave the input and return to the tree'],
+  ['Alt+H', 'Hint for the current node'],
+  ['Alt+S', 'Star the current node'],
+  ['Alt+F', 'Study the current branch on its own'],
+  ['/', 'Search visible nodes'],
+  ['Alt+1 / 2 / 3', 'Difficulty level'],
+  ['Alt+R', 'Reset progress'],
+  ['?', 'Show this help']
+];
+
+// Modal list of the study view's keyboard shortcuts.
+const ShortcutHelp: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+        className="w-full max-w-md bg-white rounded-3xl shadow-2xl p-8"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="shortcut-help-title" className="text-xl font-black text-slate-800">Keyboard shortcuts</h2>
+          <button ref={closeRef} onClick={onClose} aria-label="Close" className="p-2 rounded-xl text-slate-400 hover:text-slate-600 hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+        <dl className="space-y-3">
+          {SHORTCUTS.map(([keys, action]) => (
+            <div key={keys} className="flex items-center justify-between gap-6 text-sm">
+              <dt><kbd className="px-2 py-1 bg-slate-100 rounded-lg font-mono font-bold text-slate-700">{keys}</kbd></dt>
+              <dd className="text-slate-500 text-right">{action}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
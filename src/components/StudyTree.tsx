@@ -0,0 +1,311 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { AnswerDraft, Attempt, NodeState, TreeNode, TypoTolerance } from '../types';
+import { stripCloze } from '../utils/cloze';
+import { NodeStateStore, createNodeStateStore } from '../utils/nodeStateStore';
+import { isOpenNode } from '../utils/studyFilters';
+import { VisibleRow, VisibleRows, advanceVisibleRows, findOpenRow, ownActionButtons, ownRecallInputs, tabTargetRow, treeKeyMove } from '../utils/treeNavigation';
+import { RowLayout, advanceRowLayout, visibleRange } from '../utils/virtualList';
+import NodeCard from './NodeCard';
+
+const INDENT = 40;
+const ESTIMATED_ROW_HEIGHT = 64;
+// Rows rendered beyond each edge of the viewport, in pixels.
+const OVERSCAN = 600;
+const SCROLL_MARGIN = 96;
+const HIGHLIGHT_MS = 1500;
+
+type FocusTarget = { nodeId: string; input: 'first' | 'last' | null };
+
+const TreeRowContent: React.FC<{
+  node: TreeNode;
+  // Level below the tree's root, which is not the map root while a branch is focused.
+  depth: number;
+  posInSet: number;
+  setSize: number;
+  top: number;
+  masked: boolean;
+  tabbable: boolean;
+  highlighted: boolean;
+  typoTolerance?: TypoTolerance;
+  store: NodeStateStore;
+  observer: ResizeObserver;
+  drafts: Map<string, AnswerDraft>;
+  onUpdateNode: (nodeId: string, state: Partial<NodeState>) => void;
+  onAttempt: (attempt: Attempt) => void;
+  onFocusRow: (nodeId: string) => void;
+  onFocusBranch: (nodeId: string) => void;
+}> = ({ node, depth, posInSet, setSize, top, masked, tabbable, highlighted, typoTolerance, store, observer, drafts, onUpdateNode, onAttempt, onFocusRow, onFocusBranch }) => {
+  const subscribe = useCallback((listener: () => void) => store.subscribe(node.id, listener), [store, node.id]);
+  const nodeState = useSyncExternalStore(subscribe, () => store.get(node.id));
+  const rowRef = useRef<HTMLDivElement>(null);
+  const isOpen = isOpenNode(masked, nodeState);
+
+  useLayoutEffect(() => {
+    const el = rowRef.current!;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  }, [observer]);
+
+  return (
+    <div
+      ref={rowRef}
+      role="treeitem"
+      data-tree-node={node.id}
+      aria-level={depth + 1}
+      aria-posinset={posInSet}
+      aria-setsize={setSize}
+      aria-expanded={node.children.length > 0 ? !nodeState.isCollapsed : undefined}
+      aria-label={isOpen ? `Hidden node, level ${node.level}` : `${stripCloze(node.text)}${nodeState.isSolved ? ', solved' : ''}${nodeState.isStarred ? ', starred' : ''}`}
+      tabIndex={tabbable ? 0 : -1}
+      onFocus={(e) => { e.stopPropagation(); onFocusRow(node.id); }}
+      style={{ top, paddingLeft: depth * INDENT }}
+      className={`absolute inset-x-0 pb-4 outline-none [&:focus-visible>:first-child]:ring-2 [&:focus-visible>:first-child]:ring-indigo-400 [&>:first-child]:rounded-2xl ${highlighted ? '[&>:first-child]:ring-4 [&>:first-child]:ring-amber-300' : ''}`}
+    >
+      <div className="flex items-center group relative">
+        {depth > 0 && <div className="absolute -left-10 top-1/2 -translate-y-1/2 w-10 h-0.5 bg-slate-200"></div>}
+        <NodeCard
+          node={node}
+          nodeState={nodeState}
+          masked={masked}
+          typoTolerance={typoTolerance}
+          onUpdateNode={onUpdateNode}
+          onAttempt={onAttempt}
+          onFocusBranch={depth > 0 && node.children.length > 0 ? () => onFocusBranch(node.id) : undefined}
+          drafts={drafts}
+        />
+      </div>
+      {/* One guide line per ancestor, so the branches read as connected across rows. */}
+      {Array.from({ length: depth }, (_, i) => (
+        <div key={i} className="absolute top-0 bottom-0 w-0.5 bg-slate-200" style={{ left: i * INDENT }}></div>
+      ))}
+    </div>
+  );
+};
+
+// Rows re-render only when their own node state, position or focus changes.
+const TreeRow = React.memo(TreeRowContent);
+
+// The list view's ARIA tree, virtualized so maps with thousands of nodes stay responsive.
+const StudyTree: React.FC<{
+  root: TreeNode;
+  nodeStates: Record<string, NodeState>;
+  isMasked: (n: TreeNode) => boolean;
+  // Filter on the rows; null shows everything.
+  isShown: ((n: TreeNode) => boolean) | null;
+  typoTolerance?: TypoTolerance;
+  scrollRef: React.RefObject<HTMLElement>;
+  // Scroll to and focus this node; a new object repeats the jump.
+  jumpTarget: { nodeId: string } | null;
+  onUpdateNode: (nodeId: string, state: Partial<NodeState>) => void;
+  onAttempt: (attempt: Attempt) => void;
+  onFocusBranch: (nodeId: string) => void;
+}> = ({ root, nodeStates, isMasked, isShown, typoTolerance, scrollRef, jumpTarget, onUpdateNode, onAttempt, onFocusBranch }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [store] = useState(() => createNodeStateStore(nodeStates));
+  const [heights, setHeights] = useState(() => new Map<string, number>());
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const pendingFocusRef = useRef<FocusTarget | null>(null);
+  const visibleRef = useRef<VisibleRows | null>(null);
+  const layoutRef = useRef<RowLayout | null>(null);
+  const [observer] = useState(() => new ResizeObserver(entries => {
+    setHeights(prev => {
+      let next: Map<string, number> | null = null;
+      entries.forEach(entry => {
+        const el = entry.target as HTMLElement;
+        const id = el.dataset.treeNode!;
+        if (!el.isConnected || prev.get(id) === el.offsetHeight) return;
+        next ??= new Map(prev);
+        next.set(id, el.offsetHeight);
+      });
+      return next ?? prev;
+    });
+  }));
+
+  // Rows unmount once scrolled out of the window, so what they hold is kept here.
+  const [drafts] = useState(() => new Map<string, AnswerDraft>());
+
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  useLayoutEffect(() => store.sync(nodeStates), [store, nodeStates]);
+
+  // Carried over between renders: an answer keeps the rows, and a resize moves only the rows below it.
+  visibleRef.current = advanceVisibleRows(visibleRef.current, root, nodeStates, isShown);
+  layoutRef.current = advanceRowLayout(layoutRef.current, visibleRef.current.rows, heights, ESTIMATED_ROW_HEIGHT);
+  const { rows, rowIndex, offsets } = layoutRef.current;
+
+  // The viewport is tracked relative to the tree, so headers above it in the scroller need no special casing.
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const update = () => {
+      const tree = containerRef.current;
+      if (!tree) return;
+      const top = scroller.getBoundingClientRect().top - tree.getBoundingClientRect().top;
+      setViewport(v => (v.top === top && v.height === scroller.clientHeight ? v : { top, height: scroller.clientHeight }));
+    };
+    update();
+    scroller.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      scroller.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [scrollRef]);
+
+  const isRowOpen = (row: VisibleRow) => isOpenNode(isMasked(row.node), nodeStates[row.node.id]);
+
+  // Focus lands once the target row is rendered, which may take a scroll and a re-render.
+  const applyPendingFocus = () => {
+    const pending = pendingFocusRef.current;
+    const item = pending && containerRef.current?.querySelector<HTMLElement>(`[data-tree-node="${CSS.escape(pending.nodeId)}"]`);
+    if (!pending || !item) return;
+    pendingFocusRef.current = null;
+    const inputs = pending.input ? ownRecallInputs(item) : [];
+    const input = pending.input === 'last' ? inputs[inputs.length - 1] : inputs[0];
+    (input ?? item).focus();
+  };
+
+  useLayoutEffect(applyPendingFocus);
+
+  const scrollRowIntoView = (index: number) => {
+    const scroller = scrollRef.current;
+    const tree = containerRef.current;
+    if (!scroller || !tree) return;
+    const rowTop = tree.getBoundingClientRect().top - scroller.getBoundingClientRect().top + offsets[index];
+    const rowBottom = rowTop + offsets[index + 1] - offsets[index];
+    if (rowTop < 0) scroller.scrollTop += rowTop - SCROLL_MARGIN;
+    else if (rowBottom > scroller.clientHeight) scroller.scrollTop += rowBottom - scroller.clientHeight + SCROLL_MARGIN;
+  };
+
+  const focusRow = (index: number, input: FocusTarget['input'] = null) => {
+    const row = rows[index];
+    if (!row) return;
+    pendingFocusRef.current = { nodeId: row.node.id, input };
+    scrollRowIntoView(index);
+    applyPendingFocus();
+  };
+
+  // After a correct answer, move on to the next unanswered node once the solved state has rendered.
+  const advanceRef = useRef<(nodeId: string) => void>(() => {});
+  advanceRef.current = (nodeId: string) => {
+    const index = rowIndex.get(nodeId);
+    if (index === undefined) return;
+    const next = findOpenRow(rows, index, 1, isRowOpen);
+    if (next === -1) focusRow(index);
+    else focusRow(next, 'first');
+  };
+
+  // Runs per jump; the parent expands the ancestors in the same update, so the row is already listed.
+  const jumpRef = useRef<(nodeId: string) => boolean>(() => false);
+  jumpRef.current = (nodeId: string) => {
+    const index = rowIndex.get(nodeId);
+    if (index === undefined) return false;
+    focusRow(index);
+    return true;
+  };
+
+  useEffect(() => {
+    if (!jumpTarget || !jumpRef.current(jumpTarget.nodeId)) return;
+    setHighlightId(jumpTarget.nodeId);
+    const timer = setTimeout(() => setHighlightId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [jumpTarget]);
+
+  const handleAttempt = useCallback((attempt: Attempt) => {
+    onAttempt(attempt);
+    if (attempt.correct && attempt.mode === 'recall' && containerRef.current?.contains(document.activeElement)) {
+      requestAnimationFrame(() => advanceRef.current(attempt.nodeId));
+    }
+  }, [onAttempt]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    const item = target.closest<HTMLElement>('[role="treeitem"]');
+    const index = item ? rowIndex.get(item.dataset.treeNode!) : undefined;
+    if (!item || index === undefined) return;
+    const isInput = target.tagName === 'INPUT';
+
+    if (e.key === 'Tab') {
+      const direction = e.shiftKey ? -1 : 1;
+      // The other blanks of a cloze node come before the next row. A row with
+      // nothing to answer stops at its star and branch buttons instead.
+      const inputs = ownRecallInputs(item);
+      const stops: HTMLElement[] = inputs.length > 0 ? inputs : ownActionButtons(item);
+      const position = stops.indexOf(target);
+      const sibling = position !== -1 ? stops[position + direction]
+        : target === item && direction === 1 && inputs.length === 0 ? stops[0] : undefined;
+      if (sibling) {
+        e.preventDefault();
+        sibling.focus();
+        return;
+      }
+      const next = tabTargetRow(rows, index, direction, position === -1, isRowOpen);
+      if (next === -1) return;
+      e.preventDefault();
+      focusRow(next, direction === 1 ? 'first' : 'last');
+      return;
+    }
+    if (isInput) {
+      if (e.key === 'Escape') item.focus();
+      return;
+    }
+    if (target !== item) return;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      ownRecallInputs(item)[0]?.focus();
+      return;
+    }
+    const { node } = rows[index];
+    const move = treeKeyMove(e.key, rows, rowIndex, index, node.children.length > 0 ? !nodeStates[node.id]?.isCollapsed : undefined);
+    if (!move) return;
+    e.preventDefault();
+    if (move.type === 'collapse') onUpdateNode(node.id, { isCollapsed: move.collapsed });
+    else focusRow(move.index);
+  };
+
+  // Roving tabindex: the last focused row stays tabbable, falling back to the first row once it is hidden.
+  const focusedIndex = focusedId !== null ? rowIndex.get(focusedId) ?? 0 : 0;
+  const [start, end] = visibleRange(offsets, viewport.top - OVERSCAN, viewport.top + viewport.height + OVERSCAN);
+  const rendered = rows.slice(start, end).map((row, i) => ({ row, index: start + i }));
+  // The focused row stays mounted even when scrolled far away, so keyboard focus is never lost.
+  if (focusedIndex < start) rendered.unshift({ row: rows[focusedIndex], index: focusedIndex });
+  else if (focusedIndex >= end && rows[focusedIndex]) rendered.push({ row: rows[focusedIndex], index: focusedIndex });
+
+  return (
+    <div
+      ref={containerRef}
+      role="tree"
+      aria-label={stripCloze(root.text)}
+      onKeyDown={handleKeyDown}
+      style={{ height: offsets[rows.length] }}
+      className="relative [overflow-anchor:none]"
+    >
+      {rendered.map(({ row, index }) => (
+        <TreeRow
+          key={row.node.id}
+          node={row.node}
+          depth={row.node.level - root.level}
+          posInSet={row.posInSet}
+          setSize={row.setSize}
+          top={offsets[index]}
+          masked={isMasked(row.node)}
+          tabbable={index === focusedIndex}
+          highlighted={row.node.id === highlightId}
+          typoTolerance={typoTolerance}
+          store={store}
+          observer={observer}
+          drafts={drafts}
+          onUpdateNode={onUpdateNode}
+          onAttempt={handleAttempt}
+          onFocusRow={setFocusedId}
+          onFocusBranch={onFocusBranch}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default StudyTree;
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Printer, X } from 'lucide-react';
+import { DifficultyLevel, Session } from '../types';
+import { downloadFile, printHtml, safeFileName } from '../utils/exporters';
+import { DIFFICULTY_POLICIES, describePolicy, policyForSession } from '../utils/masking';
+import { WorksheetLayout, WorksheetOptions, buildWorksheetHtml, buildWorksheetSvg } from '../utils/worksheet';
+
+// Options for printing a session as a fill-in worksheet, with an optional answer key.
+const WorksheetPanel: React.FC<{ session: Session; onClose: () => void }> = ({ session, onClose }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const [level, setLevel] = useState<DifficultyLevel | 'current'>('current');
+  const [layout, setLayout] = useState<WorksheetLayout>('outline');
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [answerKey, setAnswerKey] = useState(true);
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  const hasStarred = Object.values(session.nodeStates).some(s => s.isStarred);
+  const options: WorksheetOptions = {
+    policy: level === 'current' ? policyForSession(session) : DIFFICULTY_POLICIES[level],
+    layout,
+    starredOnly: starredOnly && hasStarred,
+    answerKey
+  };
+  const name = safeFileName(session.fileName);
+
+  const downloadSvg = () => {
+    downloadFile(buildWorksheetSvg(session, options, false), `${name}-worksheet.svg`, 'image/svg+xml');
+    if (answerKey) downloadFile(buildWorksheetSvg(session, options, true), `${name}-answer-key.svg`, 'image/svg+xml');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="worksheet-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+        className="w-full max-w-md bg-white rounded-3xl shadow-2xl p-8"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="worksheet-title" className="text-xl font-black text-slate-800">Printable worksheet</h2>
+          <button ref={closeRef} onClick={onClose} aria-label="Close" className="p-2 rounded-xl text-slate-400 hover:text-slate-600 hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="space-y-5 text-sm">
+          <label className="block">
+            <span className="block text-xs font-black text-slate-400 uppercase mb-2">Blanks</span>
+            <select
+              value={level}
+              onChange={(e) => setLevel(e.target.value === 'current' ? 'current' : (Number(e.target.value) as DifficultyLevel))}
+              className="w-full px-3 py-2 bg-slate-100 rounded-xl font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-200"
+            >
+              <option value="current">Current ({describePolicy(policyForSession(session))})</option>
+              {[DifficultyLevel.BASIC, DifficultyLevel.INTERMEDIATE, DifficultyLevel.MASTER].map(lvl => (
+                <option key={lvl} value={lvl}>Level {lvl} ({describePolicy(DIFFICULTY_POLICIES[lvl])})</option>
+              ))}
+            </select>
+          </label>
+          <fieldset>
+            <legend className="text-xs font-black text-slate-400 uppercase mb-2">Layout</legend>
+            <div className="flex bg-slate-100 p-1.5 rounded-2xl">
+              {(['outline', 'diagram'] as WorksheetLayout[]).map(l => (
+                <button key={l} onClick={() => setLayout(l)} aria-pressed={layout === l} className={`flex-1 px-4 py-1.5 rounded-xl text-xs font-black capitalize transition-all ${layout === l ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{l}</button>
+              ))}
+            </div>
+          </fieldset>
+          <label className={`flex items-center gap-2 font-bold ${hasStarred ? 'text-slate-600' : 'text-slate-300'}`}>
+            <input type="checkbox" checked={starredOnly && hasStarred} disabled={!hasStarred} onChange={(e) => setStarredOnly(e.target.checked)} />
+            Starred nodes only
+          </label>
+          <label className="flex items-center gap-2 font-bold text-slate-600">
+            <input type="checkbox" checked={answerKey} onChange={(e) => setAnswerKey(e.target.checked)} />
+            Answer key on a separate page
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-8">
+          <button onClick={() => printHtml(buildWorksheetHtml(session, options))} className="flex items-center gap-2 bg-indigo-600 text-white px-5 py-2.5 rounded-2xl font-bold hover:bg-indigo-700"><Printer className="w-4 h-4" />Print</button>
+          <button onClick={() => downloadFile(buildWorksheetHtml(session, options), `${name}-worksheet.html`, 'text/html')} className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-600 hover:border-indigo-300"><Download className="w-4 h-4" />HTML</button>
+          <button onClick={downloadSvg} title="Diagram of the whole map" className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-600 hover:border-indigo-300"><Download className="w-4 h-4" />SVG</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorksheetPanel;
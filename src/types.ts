@@ -1,3 +1,137 @@
-
-// Redundant. Moved to App.tsx
-export {};
+// --- TYPES & ENUMS ---
+
+export enum DifficultyLevel {
+  BASIC = 1,
+  INTERMEDIATE = 2,
+  MASTER = 3
+}
+
+export type ViewState = 'dashboard' | 'study' | 'analytics';
+
+export type TypoTolerance = 'off' | 'normal' | 'lenient';
+
+export type StudyViewMode = 'list' | 'canvas';
+
+export type CanvasLayout = 'tree' | 'radial';
+
+export type StudyMode = 'recall' | 'flashcard' | 'choice' | 'ordering' | 'exam';
+
+// Which nodes a study session hides. Every set filter must match.
+export interface MaskingPolicy {
+  scope: 'all' | 'leaves' | 'leaves-and-parents';
+  minLevel?: number;
+  maxLevel?: number;
+  // Share (0-100) of the matching nodes to hide, picked with the session id as seed.
+  randomPercent?: number;
+  starredOnly?: boolean;
+  // Restricts masking to this node and its descendants.
+  subtreeId?: string;
+}
+
+export interface MaskPreset {
+  id: string;
+  name: string;
+  policy: MaskingPolicy;
+}
+
+export interface TreeNode {
+  id: string;
+  text: string;
+  children: TreeNode[];
+  isLeaf: boolean;
+  level: number;
+  // Explanation shown after solving or on demand; simple Markdown.
+  note?: string;
+}
+
+// SM-2 style review schedule of a single recall node.
+export interface ReviewSchedule {
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt: number;
+}
+
+export interface NodeState {
+  isSolved: boolean;
+  isStarred: boolean;
+  isCollapsed: boolean;
+  hintCount: number;
+  // 'close' answers were accepted within the typo tolerance and earn partial credit.
+  solvedWith?: 'exact' | 'close';
+  // Per-blank results for nodes with {{cloze}} blanks, keyed by blank index.
+  solvedBlanks?: Record<number, 'exact' | 'close'>;
+  schedule?: ReviewSchedule;
+  // When each field last changed, so progress made in two tabs merges field by field.
+  updatedAt?: Partial<Record<NodeStateField, number>>;
+}
+
+export type NodeStateField = Exclude<keyof NodeState, 'updatedAt'>;
+
+// Typed but unchecked answers of one node: its own input and each cloze blank's.
+export interface AnswerDraft {
+  input: string;
+  blanks: Record<number, string>;
+}
+
+// One answer given for a node (or, in ordering mode, for a parent's children).
+export interface Attempt {
+  nodeId: string;
+  at: number;
+  correct: boolean;
+  // Accepted within the typo tolerance.
+  close?: boolean;
+  answer: string;
+  hintsUsed: number;
+  durationMs: number;
+  mode: StudyMode;
+}
+
+export interface ExamAnswer {
+  nodeId: string;
+  text: string;
+  answer: string;
+  result: 'exact' | 'close' | 'wrong';
+  // Share of a cloze node's blanks answered, close ones counting half.
+  credit?: number;
+}
+
+export interface ExamResult {
+  id: string;
+  startedAt: number;
+  finishedAt: number;
+  timeLimitMs: number;
+  timedOut: boolean;
+  // Percentage; 'close' answers earn half credit as in practice.
+  score: number;
+  answers: ExamAnswer[];
+}
+
+export interface Session {
+  id: string;
+  fileName: string;
+  // Shown in place of the file name once set.
+  title?: string;
+  // Sessions of the same course are grouped on the dashboard.
+  course?: string;
+  tags?: string[];
+  data: TreeNode;
+  difficulty: DifficultyLevel;
+  nodeStates: Record<string, NodeState>;
+  lastUpdated: number;
+  progress: number;
+  typoTolerance?: TypoTolerance;
+  viewMode?: StudyViewMode;
+  canvasLayout?: CanvasLayout;
+  studyMode?: StudyMode;
+  attempts?: Attempt[];
+  // Overrides the difficulty level when set.
+  maskingPolicy?: MaskingPolicy;
+  maskPresetId?: string;
+  exams?: ExamResult[];
+  // Set on a combined deck: the sessions its branches come from. Decks are not stored.
+  deckSourceIds?: string[];
+  // Each source's own masking policy by session id, until one is picked for the whole deck.
+  deckPolicies?: Record<string, MaskingPolicy>;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Attempt, DifficultyLevel, Session, TreeNode } from '../types';
+import { branchMastery, dailyStats, mostMissed } from './analytics';
+import { patchNodeState } from './nodeStateStore';
+import { computeTreeStats } from './treeStats';
+
+const node = (id: string, level: number, children: TreeNode[] = []): TreeNode => ({ id, text: id, children, isLeaf: children.length === 0, level });
+
+const tree = node('root', 0, [
+  node('a', 1, [node('a1', 2), node('a2', 2), { ...node('a3', 2), text: 'The {{cat}} sat on the {{mat}}' }]),
+  node('b', 1, [node('b1', 2)])
+]);
+
+const session = (patch: Partial<Session> = {}): Session => ({
+  id: 's',
+  fileName: 's.md',
+  data: tree,
+  difficulty: DifficultyLevel.BASIC,
+  nodeStates: {},
+  lastUpdated: 1,
+  progress: 0,
+  ...patch
+});
+
+const attempt = (nodeId: string, at: number, correct: boolean): Attempt =>
+  ({ nodeId, at, correct, answer: nodeId, hintsUsed: 0, durationMs: 5, mode: 'recall' });
+
+// Local noon, so a day's attempts never straddle midnight.
+const noon = (day: number) => new Date(2024, 0, day, 12).getTime();
+
+describe('dailyStats', () => {
+  it('has one entry per day, oldest first, with empty days included', () => {
+    const attempts = [attempt('a1', noon(8), true), attempt('a1', noon(10), false), attempt('a2', noon(10) + 1000, true)];
+    expect(dailyStats(attempts, 3, noon(10))).toEqual([
+      { day: '2024-01-08', attempts: 1, correct: 1, accuracy: 1 },
+      { day: '2024-01-09', attempts: 0, correct: 0, accuracy: null },
+      { day: '2024-01-10', attempts: 2, correct: 1, accuracy: 0.5 }
+    ]);
+  });
+
+  it('leaves out attempts older than the range', () => {
+    expect(dailyStats([attempt('a1', noon(1), true)], 2, noon(10)).every(d => d.attempts === 0)).toBe(true);
+  });
+});
+
+describe('mostMissed', () => {
+  it('ranks missed nodes across sessions by misses, then attempts', () => {
+    const first = session({ attempts: [attempt('a1', 1, false), attempt('a1', 2, true), attempt('a2', 3, false), attempt('b1', 4, true)] });
+    const second = session({ id: 't', attempts: [attempt('a2', 5, false), attempt('a2', 6, false)] });
+    const missed = mostMissed([first, second]);
+    expect(missed.map(m => [m.sessionId, m.node.id, m.misses, m.attempts])).toEqual([
+      ['t', 'a2', 2, 2],
+      ['s', 'a1', 1, 2],
+      ['s', 'a2', 1, 1]
+    ]);
+    expect(mostMissed([first, second], 1)).toHaveLength(1);
+  });
+
+  it('skips nodes that are no longer in the tree', () => {
+    expect(mostMissed([session({ attempts: [attempt('gone', 1, false)] })])).toEqual([]);
+  });
+});
+
+describe('branchMastery', () => {
+  const isLeaf = (n: TreeNode) => n.isLeaf;
+
+  it('gives partial credit the way the progress bar does', () => {
+    const nodeStates = {
+      a1: patchNodeState(undefined, { isSolved: true, solvedWith: 'exact' }),
+      a2: patchNodeState(undefined, { isSolved: true, solvedWith: 'close' }),
+      a3: patchNodeState(undefined, { solvedBlanks: { 0: 'exact' } })
+    };
+    const s = session({ nodeStates });
+    const [a, b] = branchMastery(s, isLeaf);
+    // a1 counts 1, a2 half and a3 one of its two blanks.
+    expect(a).toMatchObject({ node: { id: 'a' }, earned: 2.5, total: 4 });
+    expect(b).toMatchObject({ node: { id: 'b' }, earned: 0, total: 1 });
+
+    const stats = computeTreeStats(s);
+    expect(a.earned + b.earned).toBe(stats.earnedUnits);
+    expect(a.total + b.total).toBe(stats.totalUnits);
+  });
+});
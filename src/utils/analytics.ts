@@ -0,0 +1,119 @@
+import { Attempt, Session, TreeNode } from '../types';
+import { clozeCount } from './cloze';
+import { nodeCredit } from './treeStats';
+
+// --- ANALYTICS ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Oldest attempts are dropped beyond this, so a session record stays small.
+export const MAX_ATTEMPTS = 5000;
+
+export const appendAttempt = (attempts: Attempt[] | undefined, attempt: Attempt): Attempt[] =>
+  [...(attempts || []), attempt].slice(-MAX_ATTEMPTS);
+
+// An attempt is identified by its node and time, so copies of a history can be combined.
+export const attemptKey = (attempt: Attempt): string => `${attempt.nodeId}@${attempt.at}`;
+
+// Both histories with each attempt once, oldest first; the local list itself when nothing is new.
+export const mergeAttempts = (local: Attempt[] | undefined, remote: Attempt[] | undefined): Attempt[] | undefined => {
+  const known = new Set((local || []).map(attemptKey));
+  const missing = (remote || []).filter(a => !known.has(attemptKey(a)));
+  if (missing.length === 0) return local;
+  return [...(local || []), ...missing].sort((a, b) => a.at - b.at).slice(-MAX_ATTEMPTS);
+};
+
+export const dayKey = (time: number): string => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export interface DailyStat {
+  day: string;
+  attempts: number;
+  correct: number;
+  accuracy: number | null;
+}
+
+// One entry per calendar day, oldest first, including days without activity.
+export const dailyStats = (attempts: Attempt[], days: number, now: number = Date.now()): DailyStat[] => {
+  const byDay = new Map<string, { attempts: number; correct: number }>();
+  attempts.forEach(a => {
+    const key = dayKey(a.at);
+    const entry = byDay.get(key) || { attempts: 0, correct: 0 };
+    entry.attempts++;
+    if (a.correct) entry.correct++;
+    byDay.set(key, entry);
+  });
+  const result: DailyStat[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = dayKey(now - i * DAY_MS);
+    const entry = byDay.get(day) || { attempts: 0, correct: 0 };
+    result.push({ ...entry, day, accuracy: entry.attempts > 0 ? entry.correct / entry.attempts : null });
+  }
+  return result;
+};
+
+export interface MissedNode {
+  sessionId: string;
+  node: TreeNode;
+  misses: number;
+  attempts: number;
+}
+
+const indexNodes = (root: TreeNode): Map<string, TreeNode> => {
+  const map = new Map<string, TreeNode>();
+  const walk = (n: TreeNode) => {
+    map.set(n.id, n);
+    n.children.forEach(walk);
+  };
+  walk(root);
+  return map;
+};
+
+export const mostMissed = (sessions: Session[], limit = 10): MissedNode[] => {
+  const result: MissedNode[] = [];
+  sessions.forEach(session => {
+    const nodes = indexNodes(session.data);
+    const counts = new Map<string, { misses: number; attempts: number }>();
+    (session.attempts || []).forEach(a => {
+      const entry = counts.get(a.nodeId) || { misses: 0, attempts: 0 };
+      entry.attempts++;
+      if (!a.correct) entry.misses++;
+      counts.set(a.nodeId, entry);
+    });
+    counts.forEach((entry, nodeId) => {
+      const node = nodes.get(nodeId);
+      if (node && entry.misses > 0) result.push({ sessionId: session.id, node, ...entry });
+    });
+  });
+  return result.sort((a, b) => b.misses - a.misses || b.attempts - a.attempts).slice(0, limit);
+};
+
+export interface BranchMastery {
+  node: TreeNode;
+  // Recall units as in the progress bar: one per cloze blank, half for a close answer.
+  earned: number;
+  total: number;
+}
+
+// Mastery of each first-level branch, credited the way the session progress is.
+export const branchMastery = (
+  session: Session,
+  isRequired: (n: TreeNode) => boolean,
+  asOf: number = Date.now()
+): BranchMastery[] =>
+  session.data.children.map(branch => {
+    let earned = 0;
+    let total = 0;
+    const walk = (n: TreeNode) => {
+      if (isRequired(n)) {
+        const blanks = clozeCount(n.text);
+        total += Math.max(1, blanks);
+        earned += nodeCredit(blanks, session.nodeStates[n.id], asOf);
+      }
+      n.children.forEach(walk);
+    };
+    walk(branch);
+    return { node: branch, earned, total };
+  });
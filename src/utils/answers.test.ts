@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MATCH_OPTIONS, allowedEdits, matchAnswer, normalizeAnswer, parseAlternatives, primaryAnswer } from './answers';
+
+describe('normalizeAnswer', () => {
+  it('ignores case, spacing, punctuation and compatibility forms', () => {
+    expect(normalizeAnswer('  Hello,  World! ')).toBe('helloworld');
+    expect(normalizeAnswer('ＡＢＣ')).toBe('abc');
+    expect(normalizeAnswer('Hello, World!', { ...DEFAULT_MATCH_OPTIONS, stripPunctuation: false })).toBe('hello,world!');
+  });
+});
+
+describe('matchAnswer', () => {
+  it('accepts any alternative and optional parenthetical parts', () => {
+    expect(matchAnswer('clt', 'CLT | Communicative Language Teaching')).toBe('exact');
+    expect(matchAnswer('communicative language teaching', 'CLT | Communicative Language Teaching')).toBe('exact');
+    expect(matchAnswer('Schema', 'Schema (theory)')).toBe('exact');
+    expect(matchAnswer('schema theory', 'Schema (theory)')).toBe('exact');
+    expect(matchAnswer('', 'Schema')).toBe('wrong');
+  });
+
+  it('splits alternatives inside each cloze blank', () => {
+    expect(parseAlternatives('{{CLT|Communicative Language Teaching}}')).toEqual(['CLT', 'Communicative Language Teaching']);
+    expect(parseAlternatives('{{CLT | Communicative}} approach')).toEqual(['CLT approach', 'Communicative approach']);
+    expect(parseAlternatives('{{Skinner}} | Pavlov')).toEqual(['Skinner', 'Pavlov']);
+    expect(matchAnswer('Communicative Language Teaching', '{{CLT|Communicative Language Teaching}}')).toBe('exact');
+  });
+
+  it('grades typos within the tolerance as close', () => {
+    expect(matchAnswer('mitochondrea', 'Mitochondria')).toBe('close');
+    expect(matchAnswer('mitochondrea', 'Mitochondria', { ...DEFAULT_MATCH_OPTIONS, typoTolerance: 'off' })).toBe('wrong');
+    expect(matchAnswer('cot', 'Cat')).toBe('wrong');
+    // A wrong final consonant is a single jamo edit.
+    expect(matchAnswer('사과나문', '사과나무')).toBe('close');
+  });
+
+  it('compares symbol answers with their symbols', () => {
+    expect(matchAnswer('+', '+')).toBe('exact');
+    expect(matchAnswer('→', '→')).toBe('exact');
+    expect(matchAnswer('%', '%')).toBe('exact');
+    expect(matchAnswer('-', '+')).toBe('wrong');
+    expect(matchAnswer('C++', 'C++')).toBe('exact');
+    expect(matchAnswer('-', '-')).toBe('exact');
+    expect(matchAnswer('+', '-')).toBe('wrong');
+    // A letter left after stripping is accepted on its own.
+    expect(matchAnswer('A', 'A.')).toBe('exact');
+    expect(matchAnswer('A.', 'A.')).toBe('exact');
+    expect(matchAnswer('B', 'A.')).toBe('wrong');
+    expect(matchAnswer('C', 'C++')).toBe('exact');
+    expect(matchAnswer('C', 'C#')).toBe('exact');
+    // Longer answers still drop their punctuation.
+    expect(matchAnswer('USA', 'U.S.A.')).toBe('exact');
+  });
+});
+
+describe('hints and tolerance', () => {
+  it('uses the first alternative without optional parts', () => {
+    expect(primaryAnswer('Schema (theory) | Script')).toBe('Schema');
+  });
+
+  it('allows more edits for longer answers', () => {
+    expect(allowedEdits(3, 'lenient')).toBe(0);
+    expect(allowedEdits(10, 'normal')).toBe(1);
+    expect(allowedEdits(20, 'lenient')).toBe(5);
+  });
+});
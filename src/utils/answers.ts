@@ -0,0 +1,125 @@
+import { TypoTolerance } from '../types';
+import { parseCloze } from './cloze';
+import { editDistance } from './similarity';
+
+// --- ANSWER MATCHING ---
+
+export type MatchResult = 'exact' | 'close' | 'wrong';
+
+export interface AnswerMatchOptions {
+  normalization: 'NFC' | 'NFKC';
+  stripPunctuation: boolean;
+  typoTolerance: TypoTolerance;
+}
+
+export const DEFAULT_MATCH_OPTIONS: AnswerMatchOptions = {
+  normalization: 'NFKC',
+  stripPunctuation: true,
+  typoTolerance: 'normal'
+};
+
+const ALTERNATIVE_SEPARATOR = /\s*\|\s*/;
+const PARENTHETICAL = /\s*[(（][^()（）]*[)）]\s*/g;
+const HANGUL = /[ᄀ-ᇿ㄰-㆏가-힯]/;
+
+const splitAlternatives = (text: string): string[] =>
+  text.split(ALTERNATIVE_SEPARATOR).map(a => a.trim()).filter(a => a.length > 0);
+
+/**
+ * "CLT | Communicative Language Teaching" -> ["CLT", "Communicative Language Teaching"].
+ * Blanks are parsed first and list their own alternatives, which are taken in
+ * step: "{{CLT|Communicative}} approach" -> ["CLT approach", "Communicative approach"].
+ */
+export const parseAlternatives = (text: string): string[] => {
+  // Each alternative is a run of plain text and blanks; a blank holds its own alternatives.
+  const runs: (string | string[])[][] = [[]];
+  parseCloze(text).forEach(segment => {
+    if (segment.kind === 'blank') {
+      runs[runs.length - 1].push(splitAlternatives(segment.answer));
+      return;
+    }
+    segment.text.split(ALTERNATIVE_SEPARATOR).forEach((piece, i) => {
+      if (i > 0) runs.push([]);
+      runs[runs.length - 1].push(piece);
+    });
+  });
+  const alternatives = runs.flatMap(run => {
+    const count = Math.max(1, ...run.map(part => (typeof part === 'string' ? 1 : part.length)));
+    return Array.from({ length: count }, (_, k) =>
+      run.map(part => (typeof part === 'string' ? part : part[Math.min(k, part.length - 1)] ?? '')).join('').trim()
+    );
+  });
+  return Array.from(new Set(alternatives.filter(a => a.length > 0)));
+};
+
+// The first alternative without optional parts; used for hints and labels.
+export const primaryAnswer = (text: string): string => {
+  const first = parseAlternatives(text)[0] ?? text;
+  return first.replace(PARENTHETICAL, ' ').replace(/\s+/g, ' ').trim() || first;
+};
+
+// Parenthetical parts are optional: "Schema (theory)" accepts "Schema" and "Schema theory".
+const expandOptional = (answer: string): string[] => {
+  const without = answer.replace(PARENTHETICAL, ' ').trim();
+  const withParts = answer.replace(/[(（)）]/g, ' ').trim();
+  return Array.from(new Set([without, withParts].filter(a => a.length > 0)));
+};
+
+export const normalizeAnswer = (text: string, options: AnswerMatchOptions = DEFAULT_MATCH_OPTIONS): string => {
+  let value = text.normalize(options.normalization).toLowerCase();
+  if (options.stripPunctuation) value = value.replace(/[\p{P}\p{S}]/gu, '');
+  return value.replace(/\s+/g, '');
+};
+
+// Allowed edits grow with the answer length; short answers must be exact.
+export const allowedEdits = (length: number, tolerance: TypoTolerance): number => {
+  if (tolerance === 'off' || length <= 3) return 0;
+  const ratio = tolerance === 'lenient' ? 0.25 : 0.15;
+  return Math.max(1, Math.floor(length * ratio));
+};
+
+// Hangul syllables are compared by jamo, so a wrong final consonant is one edit, not a whole syllable.
+const toComparable = (text: string): string[] =>
+  Array.from(HANGUL.test(text) ? text.normalize('NFD') : text);
+
+const isClose = (input: string, answer: string, tolerance: TypoTolerance): boolean => {
+  // A Hangul syllable carries about as much as two Latin letters.
+  const length = Array.from(answer).length * (HANGUL.test(answer) ? 2 : 1);
+  const limit = allowedEdits(length, tolerance);
+  if (limit === 0) return false;
+  const a = toComparable(input);
+  const b = toComparable(answer);
+  if (Math.abs(a.length - b.length) > limit) return false;
+  return editDistance(a.join(''), b.join('')) <= limit;
+};
+
+// Stripping punctuation reduces an answer like "+", "→", "%" or "C++" to nothing or a lone letter.
+const isCollapsed = (stripped: string, unstripped: string): boolean =>
+  stripped !== unstripped && Array.from(stripped).length <= 1;
+
+export const matchAnswer = (
+  input: string,
+  nodeText: string,
+  options: AnswerMatchOptions = DEFAULT_MATCH_OPTIONS
+): MatchResult => {
+  const unstrippedOptions = { ...options, stripPunctuation: false };
+  const given = normalizeAnswer(input, options);
+  const givenUnstripped = normalizeAnswer(input, unstrippedOptions);
+  if (givenUnstripped.length === 0) return 'wrong';
+  // Collapsed answers are compared with their symbols, and also without them
+  // when a letter is left: "A." accepts "A", while "+" needs the "+".
+  const accepted = parseAlternatives(nodeText)
+    .flatMap(expandOptional)
+    .flatMap(a => {
+      const stripped = normalizeAnswer(a, options);
+      const unstripped = normalizeAnswer(a, unstrippedOptions);
+      if (!isCollapsed(stripped, unstripped)) return [{ answer: stripped, input: given }];
+      const withSymbols = { answer: unstripped, input: givenUnstripped };
+      return stripped.length > 0 ? [withSymbols, { answer: stripped, input: given }] : [withSymbols];
+    })
+    .filter(a => a.answer.length > 0 && a.input.length > 0);
+
+  if (accepted.some(a => a.input === a.answer)) return 'exact';
+  if (accepted.some(a => isClose(a.input, a.answer, options.typoTolerance))) return 'close';
+  return 'wrong';
+};
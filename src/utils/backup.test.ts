@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, Session } from '../types';
+import { applyRestore, exportBackup, exportSession, parseBackup, planRestore } from './backup';
+import { ImportError } from './importers';
+
+const session = (id: string, lastUpdated: number, text = id): Session => ({
+  id,
+  fileName: `${id}.md`,
+  data: { id: 'root', text, children: [{ id: 'a', text: 'A', children: [], isLeaf: true, level: 1 }], isLeaf: false, level: 0 },
+  difficulty: DifficultyLevel.BASIC,
+  nodeStates: {
+    a: {
+      isSolved: true,
+      isStarred: true,
+      isCollapsed: false,
+      hintCount: 1,
+      solvedWith: 'close',
+      schedule: { easeFactor: 2.5, interval: 1, repetitions: 1, dueAt: 2, lastReviewedAt: 1 },
+      updatedAt: { isSolved: 1, isStarred: 1 }
+    }
+  },
+  lastUpdated,
+  progress: 50
+});
+
+// A single-session export with one node state replaced.
+const withState = (state: unknown): string => {
+  const data = JSON.parse(exportSession(session('s', 1)));
+  data.session.nodeStates.a = state;
+  return JSON.stringify(data);
+};
+
+describe('parseBackup', () => {
+  it('reads single-session exports and full backups back', () => {
+    expect(parseBackup(exportSession(session('s', 1)))).toEqual([session('s', 1)]);
+    expect(parseBackup(exportBackup([session('a', 1), session('b', 2)])).map(s => s.id)).toEqual(['a', 'b']);
+  });
+
+  it('rejects files that are not backups or come from a newer version', () => {
+    expect(() => parseBackup('{')).toThrow(ImportError);
+    expect(() => parseBackup('{"format":"other"}')).toThrow('Not a Pro Mind Map backup file.');
+    expect(() => parseBackup('{"format":"promindmap-backup","version":99,"sessions":[]}')).toThrow('newer');
+  });
+
+  it('checks every field of a node state', () => {
+    const valid = session('s', 1).nodeStates.a;
+    expect(() => parseBackup(withState(valid))).not.toThrow();
+    expect(() => parseBackup(withState({ ...valid, isStarred: 'yes' }))).toThrow('Invalid state for node a');
+    expect(() => parseBackup(withState({ ...valid, isCollapsed: undefined }))).toThrow('Invalid state for node a');
+    expect(() => parseBackup(withState({ ...valid, solvedWith: 'maybe' }))).toThrow('Invalid state for node a');
+    expect(() => parseBackup(withState({ ...valid, schedule: { ...valid.schedule, dueAt: '2024-01-01' } }))).toThrow('Invalid state for node a');
+    expect(() => parseBackup(withState({ ...valid, updatedAt: { isSolved: 'now' } }))).toThrow('Invalid state for node a');
+  });
+
+  it('checks the shape of optional session fields', () => {
+    const withFields = (fields: object) => exportSession({ ...session('s', 1), ...fields } as Session);
+    const attempt = { nodeId: 'a', at: 1, correct: true, answer: 'A', hintsUsed: 0, durationMs: 5, mode: 'recall' };
+    const exam = { id: 'e', startedAt: 1, finishedAt: 2, timeLimitMs: 0, timedOut: false, score: 100, answers: [{ nodeId: 'a', text: 'A', answer: 'A', result: 'exact' }] };
+    const fields = { title: 'T', tags: ['x'], attempts: [attempt], exams: [exam], maskingPolicy: { scope: 'all', minLevel: 1 }, studyMode: 'exam' };
+    expect(parseBackup(withFields(fields))[0]).toMatchObject(fields);
+
+    expect(() => parseBackup(withFields({ tags: 'x' }))).toThrow('malformed tags');
+    expect(() => parseBackup(withFields({ attempts: {} }))).toThrow('malformed attempts');
+    expect(() => parseBackup(withFields({ attempts: [{ ...attempt, at: 'now' }] }))).toThrow('malformed attempts');
+    expect(() => parseBackup(withFields({ exams: [{ ...exam, answers: null }] }))).toThrow('malformed exams');
+    expect(() => parseBackup(withFields({ maskingPolicy: { scope: 'some' } }))).toThrow('malformed maskingPolicy');
+    expect(() => parseBackup(withFields({ title: 3 }))).toThrow('malformed title');
+    expect(() => parseBackup(withFields({ typoTolerance: 'strict' }))).toThrow('malformed typoTolerance');
+  });
+
+  it('leaves unknown and deck-only fields behind', () => {
+    const restored = parseBackup(exportSession({ ...session('s', 1), deckSourceIds: ['x'], extra: true } as Session))[0];
+    expect(restored).toEqual(session('s', 1));
+  });
+});
+
+describe('applyRestore', () => {
+  const existing = [session('a', 5), session('b', 5)];
+
+  it('finds duplicates by id or by name and tree', () => {
+    const renamedCopy = { ...session('b', 1), id: 'other' };
+    expect(planRestore([session('a', 1), renamedCopy, session('c', 1)], existing).duplicateIds).toEqual(['a', 'other']);
+  });
+
+  it('keeps the most recently studied copy when merging and the incoming one when replacing', () => {
+    const incoming = [session('a', 9, 'a'), session('b', 1, 'b'), session('c', 1)];
+    const merged = applyRestore(existing, incoming, 'merge');
+    expect(merged.map(s => [s.id, s.lastUpdated])).toEqual([['c', 1], ['a', 9], ['b', 5]]);
+    const replaced = applyRestore(existing, incoming, 'replace');
+    expect(replaced.map(s => [s.id, s.lastUpdated])).toEqual([['c', 1], ['a', 9], ['b', 1]]);
+  });
+});
@@ -0,0 +1,212 @@
+import { Attempt, DifficultyLevel, ExamResult, MaskingPolicy, NodeState, Session, TreeNode } from '../types';
+import { ImportError } from './importers';
+
+// --- BACKUP & RESTORE ---
+
+const SESSION_FORMAT = 'promindmap-session';
+const BACKUP_FORMAT = 'promindmap-backup';
+const BACKUP_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestorePlan {
+  sessions: Session[];
+  // Ids of incoming sessions that already exist on this device.
+  duplicateIds: string[];
+}
+
+export const exportSession = (session: Session): string =>
+  JSON.stringify({ format: SESSION_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), session }, null, 2);
+
+export const exportBackup = (sessions: Session[]): string =>
+  JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), sessions }, null, 2);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const validateTree = (value: unknown, path: string): TreeNode => {
+  if (!isObject(value)) throw new ImportError(`Invalid node at ${path}.`);
+  const { id, text, children, isLeaf, level } = value;
+  if (typeof id !== 'string' || typeof text !== 'string' || typeof isLeaf !== 'boolean' || typeof level !== 'number' || !Array.isArray(children)) {
+    throw new ImportError(`Invalid node at ${path}: expected id, text, children, isLeaf and level.`);
+  }
+  return {
+    id,
+    text,
+    isLeaf,
+    level,
+    ...(typeof value.note === 'string' ? { note: value.note } : {}),
+    children: children.map((c, i) => validateTree(c, `${path}.children[${i}]`))
+  };
+};
+
+const SCHEDULE_FIELDS = ['easeFactor', 'interval', 'repetitions', 'dueAt', 'lastReviewedAt'] as const;
+const SOLVED_RESULTS: unknown[] = ['exact', 'close'];
+
+const isOptional = (value: unknown, check: (v: unknown) => boolean): boolean => value === undefined || check(value);
+
+const isNumberRecord = (value: unknown): boolean =>
+  isObject(value) && Object.values(value).every(v => typeof v === 'number');
+
+const isNodeState = (state: unknown): state is NodeState =>
+  isObject(state)
+  && typeof state.isSolved === 'boolean'
+  && typeof state.isStarred === 'boolean'
+  && typeof state.isCollapsed === 'boolean'
+  && typeof state.hintCount === 'number'
+  && isOptional(state.solvedWith, v => SOLVED_RESULTS.includes(v))
+  && isOptional(state.solvedBlanks, v => isObject(v) && Object.values(v).every(r => SOLVED_RESULTS.includes(r)))
+  && isOptional(state.schedule, v => isObject(v) && SCHEDULE_FIELDS.every(f => typeof v[f] === 'number'))
+  && isOptional(state.updatedAt, isNumberRecord);
+
+const validateNodeStates = (value: unknown, path: string): Record<string, NodeState> => {
+  if (!isObject(value)) throw new ImportError(`Invalid node states in ${path}.`);
+  Object.entries(value).forEach(([id, state]) => {
+    if (!isNodeState(state)) throw new ImportError(`Invalid state for node ${id} in ${path}.`);
+  });
+  return value as Record<string, NodeState>;
+};
+
+const isString = (value: unknown): boolean => typeof value === 'string';
+
+const isNumber = (value: unknown): boolean => typeof value === 'number';
+
+const oneOf = (values: unknown[]) => (value: unknown): boolean => values.includes(value);
+
+const isListOf = (check: (v: unknown) => boolean) => (value: unknown): boolean =>
+  Array.isArray(value) && value.every(check);
+
+const STUDY_MODES = ['recall', 'flashcard', 'choice', 'ordering', 'exam'];
+
+const isAttempt = (a: unknown): a is Attempt =>
+  isObject(a)
+  && isString(a.nodeId)
+  && isNumber(a.at)
+  && typeof a.correct === 'boolean'
+  && isOptional(a.close, v => typeof v === 'boolean')
+  && isString(a.answer)
+  && isNumber(a.hintsUsed)
+  && isNumber(a.durationMs)
+  && STUDY_MODES.includes(a.mode as string);
+
+const isMaskingPolicy = (p: unknown): p is MaskingPolicy =>
+  isObject(p)
+  && ['all', 'leaves', 'leaves-and-parents'].includes(p.scope as string)
+  && isOptional(p.minLevel, isNumber)
+  && isOptional(p.maxLevel, isNumber)
+  && isOptional(p.randomPercent, isNumber)
+  && isOptional(p.starredOnly, v => typeof v === 'boolean')
+  && isOptional(p.subtreeId, isString);
+
+const isExamResult = (e: unknown): e is ExamResult =>
+  isObject(e)
+  && isString(e.id)
+  && isNumber(e.startedAt)
+  && isNumber(e.finishedAt)
+  && isNumber(e.timeLimitMs)
+  && typeof e.timedOut === 'boolean'
+  && isNumber(e.score)
+  && isListOf(a => isObject(a)
+    && isString(a.nodeId)
+    && isString(a.text)
+    && isString(a.answer)
+    && ['exact', 'close', 'wrong'].includes(a.result as string)
+    && isOptional(a.credit, isNumber))(e.answers);
+
+// An optional session field, copied only once its shape checks out; a malformed one fails the import.
+const optionalField = <K extends keyof Session>(
+  value: Record<string, unknown>,
+  key: K,
+  check: (v: unknown) => boolean,
+  path: string
+): Partial<Pick<Session, K>> => {
+  if (value[key] === undefined) return {};
+  if (!check(value[key])) throw new ImportError(`Invalid ${path}: malformed ${key}.`);
+  return { [key]: value[key] } as Partial<Pick<Session, K>>;
+};
+
+// Builds the session field by field: unknown or deck-only fields are left behind.
+export const validateSession = (value: unknown, path = 'session'): Session => {
+  if (!isObject(value)) throw new ImportError(`Invalid ${path}: expected an object.`);
+  const { id, fileName, difficulty, lastUpdated, progress } = value;
+  if (typeof id !== 'string' || typeof fileName !== 'string') {
+    throw new ImportError(`Invalid ${path}: missing id or fileName.`);
+  }
+  if (!Object.values(DifficultyLevel).includes(difficulty as DifficultyLevel)) {
+    throw new ImportError(`Invalid ${path}: unknown difficulty "${String(difficulty)}".`);
+  }
+  return {
+    id,
+    fileName,
+    ...optionalField(value, 'title', isString, path),
+    ...optionalField(value, 'course', isString, path),
+    ...optionalField(value, 'tags', isListOf(isString), path),
+    data: validateTree(value.data, `${path}.data`),
+    difficulty: difficulty as DifficultyLevel,
+    nodeStates: validateNodeStates(value.nodeStates ?? {}, path),
+    lastUpdated: typeof lastUpdated === 'number' ? lastUpdated : Date.now(),
+    progress: typeof progress === 'number' ? progress : 0,
+    ...optionalField(value, 'typoTolerance', oneOf(['off', 'normal', 'lenient']), path),
+    ...optionalField(value, 'viewMode', oneOf(['list', 'canvas']), path),
+    ...optionalField(value, 'canvasLayout', oneOf(['tree', 'radial']), path),
+    ...optionalField(value, 'studyMode', oneOf(STUDY_MODES), path),
+    ...optionalField(value, 'attempts', isListOf(isAttempt), path),
+    ...optionalField(value, 'maskingPolicy', isMaskingPolicy, path),
+    ...optionalField(value, 'maskPresetId', isString, path),
+    ...optionalField(value, 'exams', isListOf(isExamResult), path)
+  };
+};
+
+// Accepts a single-session export or a full backup archive.
+export const parseBackup = (content: string): Session[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    throw new ImportError(`Malformed backup file: ${(e as Error).message}`);
+  }
+  if (!isObject(data)) throw new ImportError('Not a Pro Mind Map backup file.');
+  if (typeof data.version === 'number' && data.version > BACKUP_VERSION) {
+    throw new ImportError(`Backup version ${data.version} is newer than this app supports.`);
+  }
+  if (data.format === SESSION_FORMAT) return [validateSession(data.session)];
+  if (data.format === BACKUP_FORMAT) {
+    if (!Array.isArray(data.sessions)) throw new ImportError('Invalid backup: missing sessions list.');
+    return data.sessions.map((s, i) => validateSession(s, `sessions[${i}]`));
+  }
+  throw new ImportError('Not a Pro Mind Map backup file.');
+};
+
+const treeSignature = (node: TreeNode): string =>
+  `${node.text}(${node.children.map(treeSignature).join(',')})`;
+
+export const findDuplicate = (incoming: Session, existing: Session[]): Session | undefined => {
+  const signature = treeSignature(incoming.data);
+  return existing.find(s => s.id === incoming.id || (s.fileName === incoming.fileName && treeSignature(s.data) === signature));
+};
+
+export const planRestore = (incoming: Session[], existing: Session[]): RestorePlan => ({
+  sessions: incoming,
+  duplicateIds: incoming.filter(s => findDuplicate(s, existing)).map(s => s.id)
+});
+
+/**
+ * New sessions are always added. Duplicates keep whichever copy was studied
+ * most recently when merging, or are overwritten by the incoming copy when
+ * replacing.
+ */
+export const applyRestore = (existing: Session[], incoming: Session[], mode: RestoreMode): Session[] => {
+  const result = [...existing];
+  const added: Session[] = [];
+  incoming.forEach(session => {
+    const duplicate = findDuplicate(session, result);
+    if (!duplicate) {
+      added.push(session);
+      return;
+    }
+    if (mode === 'replace' || session.lastUpdated > duplicate.lastUpdated) {
+      result[result.indexOf(duplicate)] = { ...session, id: duplicate.id };
+    }
+  });
+  return [...added, ...result];
+};
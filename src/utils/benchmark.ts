@@ -0,0 +1,97 @@
+import { ProfilerOnRenderCallback } from 'react';
+import { DifficultyLevel, Session } from '../types';
+import { RawNode, buildTree } from './parser';
+
+// --- BENCHMARK FIXTURE ---
+// A reproducible large map for checking study-view performance: open the app with `?benchmark=5000`.
+
+export const DEFAULT_BENCHMARK_SIZE = 5000;
+
+const TERMS = [
+  'Cell', 'Membrane', 'Enzyme', 'Protein', 'Receptor', 'Gene', 'Ribosome', 'Mitochondrion',
+  'Nucleus', 'Hormone', 'Neuron', 'Synapse', 'Antibody', 'Pathway', 'Ligand', 'Vesicle'
+];
+
+// Mulberry32: a small seeded generator, so every run builds the same map.
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Builds a textbook-like outline of exactly `nodeCount` nodes: branches of
+ * 2–8 children filled breadth-first, with some cloze blanks and notes mixed in.
+ */
+export const createBenchmarkRaw = (nodeCount: number, seed = 1): RawNode => {
+  const random = createRandom(seed);
+  const root: RawNode = { text: `Benchmark (${nodeCount} nodes)`, children: [] };
+  const queue: { node: RawNode; path: string }[] = [{ node: root, path: '' }];
+  let created = 1;
+  for (let head = 0; head < queue.length && created < nodeCount; head++) {
+    const { node, path } = queue[head];
+    const width = Math.min(2 + Math.floor(random() * 7), nodeCount - created);
+    for (let i = 1; i <= width; i++) {
+      const childPath = path ? `${path}.${i}` : `${i}`;
+      const term = TERMS[Math.floor(random() * TERMS.length)];
+      const roll = random();
+      const child: RawNode = {
+        text: roll < 0.05 ? `{{${term}}} ${childPath}` : `${term} ${childPath}`,
+        children: [],
+        ...(roll > 0.95 ? { note: `Reference for **${term} ${childPath}**.` } : {})
+      };
+      node.children.push(child);
+      queue.push({ node: child, path: childPath });
+    }
+    created += width;
+  }
+  return root;
+};
+
+const BENCHMARK_ID_PREFIX = 'benchmark-';
+
+export const createBenchmarkSession = (nodeCount: number): Session => ({
+  // A fixed id keeps the seeded random masking identical between runs.
+  id: `${BENCHMARK_ID_PREFIX}${nodeCount}`,
+  fileName: `Benchmark (${nodeCount} nodes)`,
+  data: buildTree(createBenchmarkRaw(nodeCount)),
+  difficulty: DifficultyLevel.BASIC,
+  nodeStates: {},
+  lastUpdated: Date.now(),
+  progress: 0
+});
+
+// The fixture lives in memory only: it is never listed, autosaved or stored in the library.
+export const isBenchmarkSession = (session: Session): boolean => session.id.startsWith(BENCHMARK_ID_PREFIX);
+
+// `?benchmark` on its own uses the default size.
+export const benchmarkSizeFromUrl = (search: string): number | null => {
+  const params = new URLSearchParams(search);
+  if (!params.has('benchmark')) return null;
+  const size = Number(params.get('benchmark'));
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_BENCHMARK_SIZE;
+};
+
+// Commits are summarised once they settle rather than logged one by one.
+const SUMMARY_DELAY_MS = 1000;
+
+/**
+ * Profiler callback that collects commit times and logs their count, median
+ * and maximum after a pause. React only reports commit times from development
+ * builds, so run the benchmark with `npm run dev`.
+ */
+export const createRenderTimer = (): ProfilerOnRenderCallback => {
+  let durations: number[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return (id, _phase, actualDuration) => {
+    durations.push(actualDuration);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const sorted = [...durations].sort((a, b) => a - b);
+      durations = [];
+      const median = sorted[Math.floor(sorted.length / 2)];
+      console.info(`[benchmark] ${id}: ${sorted.length} commits, median ${median.toFixed(1)} ms, max ${sorted[sorted.length - 1].toFixed(1)} ms`);
+    }, SUMMARY_DELAY_MS);
+  };
+};
@@ -0,0 +1,37 @@
+import { NodeState } from '../types';
+
+// --- CLOZE BLANKS ---
+// "{{Stimulus}} → Response" hides only "Stimulus"; a blank may list alternatives: "{{CLT|Communicative}}".
+
+const CLOZE_RE = /\{\{(.+?)\}\}/g;
+
+export type ClozeSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'blank'; answer: string; index: number };
+
+export const parseCloze = (text: string): ClozeSegment[] => {
+  const segments: ClozeSegment[] = [];
+  let lastIndex = 0;
+  let index = 0;
+  for (const match of text.matchAll(CLOZE_RE)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) segments.push({ kind: 'text', text: text.slice(lastIndex, start) });
+    segments.push({ kind: 'blank', answer: match[1].trim(), index: index++ });
+    lastIndex = start + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ kind: 'text', text: text.slice(lastIndex) });
+  return segments;
+};
+
+export const clozeCount = (text: string): number => (text.match(CLOZE_RE) || []).length;
+
+export const clozeBlanks = (text: string): Extract<ClozeSegment, { kind: 'blank' }>[] =>
+  parseCloze(text).flatMap(s => (s.kind === 'blank' ? [s] : []));
+
+// The text as it reads when every blank shows its first alternative.
+export const stripCloze = (text: string): string =>
+  text.replace(CLOZE_RE, (_, answer: string) => answer.split('|')[0].trim());
+
+// Credit for the blanks answered so far; close answers earn half.
+export const clozeCredit = (state: Pick<NodeState, 'solvedBlanks'> | undefined): number =>
+  Object.values(state?.solvedBlanks || {}).reduce((sum, r) => sum + (r === 'close' ? 0.5 : 1), 0);
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, ExamResult, Session, TreeNode } from '../types';
+import { buildDeck, deckSources, maskPredicateForDeck } from './decks';
+import { maskPredicateForSession } from './masking';
+import { patchNodeState } from './nodeStateStore';
+
+const node = (id: string, level: number, children: TreeNode[] = []): TreeNode => ({ id, text: id, children, isLeaf: children.length === 0, level });
+
+const session = (id: string, difficulty: DifficultyLevel, patch: Partial<Session> = {}): Session => ({
+  id,
+  fileName: `${id}.md`,
+  data: node('root', 0, [node('a', 1, [node('a1', 2), node('a2', 2)]), node('b', 1)]),
+  difficulty,
+  nodeStates: {},
+  lastUpdated: 1,
+  progress: 0,
+  ...patch
+});
+
+const collect = (root: TreeNode): TreeNode[] => [root, ...root.children.flatMap(collect)];
+
+describe('combined decks', () => {
+  const basic = session('s1', DifficultyLevel.BASIC);
+  const master = session('s2', DifficultyLevel.MASTER, { maskingPolicy: { scope: 'all', randomPercent: 50 } });
+
+  it('masks each branch by its own source policy', () => {
+    const deck = buildDeck([basic, master]);
+    const isMasked = maskPredicateForDeck(deck, deck.deckPolicies!);
+    [basic, master].forEach(source => {
+      const own = maskPredicateForSession(source);
+      collect(source.data).forEach(n => {
+        const inDeck = collect(deck.data).find(d => d.id === `${source.id}::${n.id}`)!;
+        expect(isMasked(inDeck)).toBe(own(n));
+      });
+    });
+    expect(isMasked(deck.data)).toBe(false);
+  });
+
+  it('writes node states, attempts and exam results back to their sources', () => {
+    const deck = buildDeck([basic, master]);
+    const exam: ExamResult = {
+      id: 'exam-1',
+      startedAt: 10,
+      finishedAt: 20,
+      timeLimitMs: 0,
+      timedOut: false,
+      score: 50,
+      answers: [
+        { nodeId: 's1::a1', text: 'a1', answer: 'a1', result: 'exact' },
+        { nodeId: 's2::b', text: 'b', answer: '', result: 'wrong' }
+      ]
+    };
+    const studied: Session = {
+      ...deck,
+      nodeStates: { 's1::a1': patchNodeState(undefined, { isSolved: true }, 5) },
+      attempts: [{ nodeId: 's2::b', at: 20, correct: false, answer: '', hintsUsed: 0, durationMs: 5, mode: 'exam' }],
+      exams: [exam]
+    };
+    const [s1, s2] = deckSources(studied, [basic, master, session('other', DifficultyLevel.BASIC)]);
+    expect(s1.nodeStates.a1.isSolved).toBe(true);
+    expect(s1.exams).toEqual([{ ...exam, answers: [{ ...exam.answers[0], nodeId: 'a1' }], score: 100 }]);
+    expect(s2.attempts?.map(a => a.nodeId)).toEqual(['b']);
+    expect(s2.exams?.[0]).toMatchObject({ id: 'exam-1', score: 0, answers: [{ nodeId: 'b' }] });
+
+    // Writing back again adds nothing twice.
+    const again = deckSources(studied, [s1, s2]);
+    expect(again[0]).toBe(s1);
+    expect(again[1]).toBe(s2);
+  });
+});
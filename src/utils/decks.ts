@@ -0,0 +1,132 @@
+import { ExamResult, MaskingPolicy, NodeState, Session, TreeNode } from '../types';
+import { appendAttempt, attemptKey } from './analytics';
+import { appendExam, examScore } from './exam';
+import { sessionTitle } from './library';
+import { createMaskPredicate, policyForSession } from './masking';
+import { sameNodeStates } from './nodeStateStore';
+
+// --- COMBINED DECKS ---
+// Several sessions studied as one map. Each source map becomes a top-level
+// branch whose node ids carry the source session's id, so every answer can be
+// written back to the session it came from; the deck itself is never stored.
+
+const SEPARATOR = '::';
+
+const deckNodeId = (sessionId: string, nodeId: string) => `${sessionId}${SEPARATOR}${nodeId}`;
+
+const toDeckNode = (node: TreeNode, sessionId: string): TreeNode => ({
+  ...node,
+  id: deckNodeId(sessionId, node.id),
+  level: node.level + 1,
+  children: node.children.map(c => toDeckNode(c, sessionId))
+});
+
+// The reverse of toDeckNode: a deck branch with its source's ids and levels.
+const toSourceNode = (node: TreeNode, prefix: string): TreeNode => ({
+  ...node,
+  id: node.id.slice(prefix.length),
+  level: node.level - 1,
+  children: node.children.map(c => toSourceNode(c, prefix))
+});
+
+// Entries under the source's prefix, keyed by the source's own node ids.
+const sourceEntries = <T>(entries: Record<string, T>, prefix: string): Record<string, T> => {
+  const own: Record<string, T> = {};
+  Object.entries(entries).forEach(([id, value]) => {
+    if (id.startsWith(prefix)) own[id.slice(prefix.length)] = value;
+  });
+  return own;
+};
+
+export const isDeck = (session: Session): boolean => !!session.deckSourceIds;
+
+// Each source keeps its own masking policy; the first source's typo tolerance applies to the whole deck.
+export const buildDeck = (sources: Session[]): Session => {
+  const title = sources.map(sessionTitle).join(' + ');
+  const nodeStates: Session['nodeStates'] = {};
+  sources.forEach(s => Object.entries(s.nodeStates).forEach(([id, state]) => {
+    nodeStates[deckNodeId(s.id, id)] = state;
+  }));
+  return {
+    id: `deck-${sources.map(s => s.id).join('+')}`,
+    fileName: title,
+    data: { id: 'deck-root', text: title, level: 0, isLeaf: false, children: sources.map(s => toDeckNode(s.data, s.id)) },
+    difficulty: sources[0].difficulty,
+    typoTolerance: sources[0].typoTolerance,
+    nodeStates,
+    lastUpdated: Date.now(),
+    progress: 0,
+    deckSourceIds: sources.map(s => s.id),
+    deckPolicies: Object.fromEntries(sources.map(s => [s.id, policyForSession(s)]))
+  };
+};
+
+/**
+ * Masks each branch of a deck by its source's policy, judged on the source's
+ * own ids and levels so the same nodes are hidden as when studying it alone.
+ */
+export const maskPredicateForDeck = (deck: Session, policies: Record<string, MaskingPolicy>): ((n: TreeNode) => boolean) => {
+  const predicates = new Map<string, (n: TreeNode) => boolean>();
+  const sourceNodes = new Map<string, TreeNode>();
+  deck.deckSourceIds?.forEach(sessionId => {
+    const prefix = `${sessionId}${SEPARATOR}`;
+    const branch = deck.data.children.find(c => c.id.startsWith(prefix));
+    if (!branch) return;
+    const root = toSourceNode(branch, prefix);
+    predicates.set(sessionId, createMaskPredicate(policies[sessionId] ?? policyForSession(deck), {
+      root,
+      nodeStates: sourceEntries(deck.nodeStates, prefix),
+      seed: sessionId
+    }));
+    const walk = (node: TreeNode) => {
+      sourceNodes.set(`${prefix}${node.id}`, node);
+      node.children.forEach(walk);
+    };
+    walk(root);
+  });
+  return (n) => {
+    const node = sourceNodes.get(n.id);
+    const isMasked = predicates.get(n.id.slice(0, n.id.indexOf(SEPARATOR)));
+    return !!node && !!isMasked && isMasked(node);
+  };
+};
+
+// A deck exam's answers for one source, scored on their own.
+const sourceExam = (exam: ExamResult, prefix: string): ExamResult => {
+  const answers = exam.answers
+    .filter(a => a.nodeId.startsWith(prefix))
+    .map(a => ({ ...a, nodeId: a.nodeId.slice(prefix.length) }));
+  return { ...exam, answers, score: examScore(answers) };
+};
+
+/**
+ * A source session with the deck's node states, attempts and exam results
+ * for its nodes. Safe to repeat: history already written back is not added again.
+ */
+const writeBackSource = (deck: Session, source: Session): Session => {
+  const prefix = `${source.id}${SEPARATOR}`;
+  const nodeStates: Record<string, NodeState> = sourceEntries(deck.nodeStates, prefix);
+  const known = new Set((source.attempts || []).map(attemptKey));
+  const attempts = (deck.attempts || [])
+    .filter(a => a.nodeId.startsWith(prefix))
+    .map(a => ({ ...a, nodeId: a.nodeId.slice(prefix.length) }))
+    .filter(a => !known.has(attemptKey(a)));
+  const knownExams = new Set((source.exams || []).map(e => e.id));
+  const exams = (deck.exams || [])
+    .filter(e => !knownExams.has(e.id))
+    .map(e => sourceExam(e, prefix))
+    .filter(e => e.answers.length > 0);
+  if (attempts.length === 0 && exams.length === 0 && sameNodeStates(nodeStates, source.nodeStates)) return source;
+
+  return {
+    ...source,
+    nodeStates,
+    attempts: attempts.reduce(appendAttempt, source.attempts || []),
+    exams: exams.reduce(appendExam, source.exams),
+    lastUpdated: deck.lastUpdated
+  };
+};
+
+// The deck's sources with its progress and exam results folded in; their progress percentages are left to the caller.
+export const deckSources = (deck: Session, sessions: Session[]): Session[] =>
+  sessions.filter(s => deck.deckSourceIds?.includes(s.id)).map(s => writeBackSource(deck, s));
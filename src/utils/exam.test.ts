@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ExamAnswer, ExamResult, TreeNode } from '../types';
+import { DEFAULT_MATCH_OPTIONS } from './answers';
+import { MAX_EXAMS, appendExam, blankResponseKey, collectExamNodes, examScore, formatDuration, gradeExam, isAnswered, mergeExams } from './exam';
+
+const node = (id: string, text: string): TreeNode => ({ id, text, children: [], isLeaf: true, level: 1 });
+
+const answer = (result: ExamAnswer['result']): ExamAnswer => ({ nodeId: 'n', text: 'N', answer: 'n', result });
+
+const exam = (id: string, finishedAt: number): ExamResult =>
+  ({ id, startedAt: finishedAt - 1, finishedAt, timeLimitMs: 0, timedOut: false, score: 0, answers: [] });
+
+describe('gradeExam', () => {
+  it('grades every masked node, blanks as wrong', () => {
+    const nodes = [node('a', 'Mitochondria'), node('b', 'Ribosome'), node('c', 'Nucleus')];
+    const graded = gradeExam(nodes, { a: 'mitochondria', b: 'ribosme', c: '  ' }, DEFAULT_MATCH_OPTIONS);
+    expect(graded.answers.map(a => [a.nodeId, a.result])).toEqual([['a', 'exact'], ['b', 'close'], ['c', 'wrong']]);
+    expect(graded.answers[2].answer).toBe('');
+    expect(graded.score).toBe(50);
+    expect(gradeExam(nodes.slice(1, 2), { b: 'ribosme' }, { ...DEFAULT_MATCH_OPTIONS, typoTolerance: 'off' }).score).toBe(0);
+  });
+
+  it('asks the masked nodes in reading order', () => {
+    const root: TreeNode = { ...node('root', 'Root'), level: 0, isLeaf: false, children: [node('a', 'A'), node('b', 'B')] };
+    expect(collectExamNodes(root, n => n.id !== 'a').map(n => n.id)).toEqual(['root', 'b']);
+  });
+
+  it('grades each cloze blank on its own', () => {
+    const cloze = node('c', '{{Stimulus}} → {{Response|Reaction}}');
+    const grade = (first: string, second: string) => gradeExam([cloze], {
+      [blankResponseKey('c', 0)]: first,
+      [blankResponseKey('c', 1)]: second
+    }, DEFAULT_MATCH_OPTIONS);
+
+    expect(grade('stimulus', 'reaction')).toMatchObject({ score: 100, answers: [{ result: 'exact', answer: 'stimulus / reaction' }] });
+    expect(grade('stimulus', '')).toMatchObject({ score: 50, answers: [{ result: 'close', credit: 0.5 }] });
+    expect(grade('stimulos', 'response')).toMatchObject({ score: 75, answers: [{ result: 'close', credit: 0.75 }] });
+    expect(grade('', 'nothing')).toMatchObject({ score: 0, answers: [{ result: 'wrong', credit: 0 }] });
+    // Typing the whole sentence into the node is not an answer to its blanks.
+    expect(gradeExam([cloze], { c: 'Stimulus → Response' }, DEFAULT_MATCH_OPTIONS).score).toBe(0);
+  });
+});
+
+describe('exam results', () => {
+  it('scores close answers and cloze credit as partial', () => {
+    expect(examScore([answer('exact'), answer('close'), answer('wrong'), answer('wrong')])).toBe(38);
+    expect(examScore([{ ...answer('close'), credit: 0.75 }])).toBe(75);
+    expect(examScore([])).toBe(0);
+  });
+
+  it('counts a cloze node as answered once any blank is filled', () => {
+    const cloze = node('c', '{{A}} and {{B}}');
+    expect(isAnswered(cloze, {})).toBe(false);
+    expect(isAnswered(cloze, { [blankResponseKey('c', 1)]: 'b' })).toBe(true);
+    expect(isAnswered(node('n', 'N'), { n: ' ' })).toBe(false);
+  });
+
+  it('keeps only the latest exams', () => {
+    let exams: ExamResult[] | undefined;
+    for (let i = 0; i < MAX_EXAMS + 2; i++) exams = appendExam(exams, exam(`e${i}`, i));
+    expect(exams).toHaveLength(MAX_EXAMS);
+    expect(exams![0].id).toBe('e2');
+    expect(exams![MAX_EXAMS - 1].id).toBe(`e${MAX_EXAMS + 1}`);
+  });
+
+  it('merges exam lists by id', () => {
+    const local = [exam('a', 1), exam('c', 3)];
+    expect(mergeExams(local, [exam('a', 1)])).toBe(local);
+    expect(mergeExams(local, [exam('b', 2)])?.map(e => e.id)).toEqual(['a', 'b', 'c']);
+    expect(mergeExams(undefined, [exam('b', 2)])?.map(e => e.id)).toEqual(['b']);
+  });
+
+  it('formats durations as minutes and seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65_400)).toBe('1:05');
+    expect(formatDuration(-5_000)).toBe('0:00');
+    expect(formatDuration(600_000)).toBe('10:00');
+  });
+});
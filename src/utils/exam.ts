@@ -0,0 +1,82 @@
+import { ExamAnswer, ExamResult, NodeState, TreeNode } from '../types';
+import { AnswerMatchOptions, matchAnswer } from './answers';
+import { clozeBlanks, clozeCredit } from './cloze';
+import { shuffle } from './quiz';
+
+// --- EXAM MODE ---
+
+// Only the most recent results are kept on a session.
+export const MAX_EXAMS = 50;
+
+export const shuffleSiblings = (node: TreeNode): TreeNode => ({
+  ...node,
+  children: shuffle(node.children).map(shuffleSiblings)
+});
+
+// Masked nodes in reading order of the (possibly shuffled) exam tree.
+export const collectExamNodes = (root: TreeNode, isMasked: (n: TreeNode) => boolean): TreeNode[] => {
+  const nodes: TreeNode[] = [];
+  const walk = (n: TreeNode) => {
+    if (isMasked(n)) nodes.push(n);
+    n.children.forEach(walk);
+  };
+  walk(root);
+  return nodes;
+};
+
+// A cloze node takes one response per blank.
+export const blankResponseKey = (nodeId: string, index: number): string => `${nodeId}#${index}`;
+
+export const isAnswered = (node: TreeNode, responses: Record<string, string>): boolean => {
+  const blanks = clozeBlanks(node.text);
+  if (blanks.length === 0) return !!(responses[node.id] || '').trim();
+  return blanks.some(b => !!(responses[blankResponseKey(node.id, b.index)] || '').trim());
+};
+
+// Each blank is graded on its own and the node scored by its blanks' credit, as in practice.
+const gradeNode = (node: TreeNode, responses: Record<string, string>, options: AnswerMatchOptions): ExamAnswer => {
+  const blanks = clozeBlanks(node.text);
+  if (blanks.length === 0) {
+    const answer = (responses[node.id] || '').trim();
+    return { nodeId: node.id, text: node.text, answer, result: answer ? matchAnswer(answer, node.text, options) : 'wrong' };
+  }
+  const typed = blanks.map(b => (responses[blankResponseKey(node.id, b.index)] || '').trim());
+  const solvedBlanks: NonNullable<NodeState['solvedBlanks']> = {};
+  blanks.forEach((b, i) => {
+    const result = typed[i] ? matchAnswer(typed[i], b.answer, options) : 'wrong';
+    if (result !== 'wrong') solvedBlanks[b.index] = result;
+  });
+  const results = Object.values(solvedBlanks);
+  const result = results.length === 0 ? 'wrong' : results.length === blanks.length && !results.includes('close') ? 'exact' : 'close';
+  return { nodeId: node.id, text: node.text, answer: typed.join(' / '), result, credit: clozeCredit({ solvedBlanks }) / blanks.length };
+};
+
+export const gradeExam = (
+  nodes: TreeNode[],
+  responses: Record<string, string>,
+  options: AnswerMatchOptions
+): { answers: ExamAnswer[]; score: number } => {
+  const answers = nodes.map(n => gradeNode(n, responses, options));
+  return { answers, score: examScore(answers) };
+};
+
+export const examScore = (answers: ExamAnswer[]): number => {
+  const points = answers.reduce((sum, a) => sum + (a.credit ?? (a.result === 'exact' ? 1 : a.result === 'close' ? 0.5 : 0)), 0);
+  return Math.round((points / Math.max(1, answers.length)) * 100);
+};
+
+export const appendExam = (exams: ExamResult[] | undefined, exam: ExamResult): ExamResult[] =>
+  [...(exams || []), exam].slice(-MAX_EXAMS);
+
+// Both lists with each exam once, oldest first; the local list itself when nothing is new.
+export const mergeExams = (local: ExamResult[] | undefined, remote: ExamResult[] | undefined): ExamResult[] | undefined => {
+  const known = new Set((local || []).map(e => e.id));
+  const missing = (remote || []).filter(e => !known.has(e.id));
+  if (missing.length === 0) return local;
+  return [...(local || []), ...missing].sort((a, b) => a.finishedAt - b.finishedAt).slice(-MAX_EXAMS);
+};
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
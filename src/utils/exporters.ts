@@ -0,0 +1,94 @@
+import { NodeState, TreeNode } from '../types';
+
+// --- EXPORTERS ---
+
+export interface TreeExportOptions {
+  nodeStates?: Record<string, NodeState>;
+  markStarred?: boolean;
+}
+
+const STAR_MARK = '★';
+
+const isStarred = (node: TreeNode, options: TreeExportOptions) =>
+  !!options.markStarred && !!options.nodeStates?.[node.id]?.isStarred;
+
+// Root becomes a heading, everything else an indented bullet list; notes become indented quotes.
+export const treeToMarkdown = (tree: TreeNode, options: TreeExportOptions = {}): string => {
+  const label = (n: TreeNode) => (isStarred(n, options) ? `${STAR_MARK} ${n.text}` : n.text);
+  const lines = [`# ${label(tree)}`];
+  const pushNote = (node: TreeNode, indent: string) => {
+    node.note?.split('\n').forEach(l => lines.push(`${indent}> ${l}`.trimEnd()));
+  };
+  pushNote(tree, '  ');
+  lines.push('');
+  const walk = (node: TreeNode, depth: number) => {
+    lines.push(`${'  '.repeat(depth)}- ${label(node)}`);
+    pushNote(node, '  '.repeat(depth + 1));
+    node.children.forEach(c => walk(c, depth + 1));
+  };
+  tree.children.forEach(c => walk(c, 0));
+  return lines.join('\n') + '\n';
+};
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const treeToOpml = (tree: TreeNode, options: TreeExportOptions = {}): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `  <head><title>${escapeXml(tree.text)}</title></head>`,
+    '  <body>'
+  ];
+  const walk = (node: TreeNode, depth: number) => {
+    const pad = '  '.repeat(depth + 2);
+    const note = node.note ? ` _note="${escapeXml(node.note).replace(/\n/g, '&#10;')}"` : '';
+    const attrs = `text="${escapeXml(node.text)}"${note}${isStarred(node, options) ? ' _starred="true"' : ''}`;
+    if (node.children.length === 0) {
+      lines.push(`${pad}<outline ${attrs}/>`);
+      return;
+    }
+    lines.push(`${pad}<outline ${attrs}>`);
+    node.children.forEach(c => walk(c, depth + 1));
+    lines.push(`${pad}</outline>`);
+  };
+  walk(tree, 0);
+  lines.push('  </body>', '</opml>');
+  return lines.join('\n') + '\n';
+};
+
+export const safeFileName = (name: string): string =>
+  name.replace(/\.[^.]+$/, '').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'mind-map';
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Some browsers start the download only after click() returns.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Prints a standalone document from a hidden frame, so its own print styles apply instead of the app's.
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0;';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return frame.remove();
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { TreeNode } from '../types';
+import { ImportError, Importer, acceptedExtensions, findImporter, importMindMap, importers, registerImporter } from './importers';
+
+const outline = (node: TreeNode): unknown => ({ text: node.text, ...(node.note ? { note: node.note } : {}), children: node.children.map(outline) });
+
+describe('importMindMap', () => {
+  it('reads OPML outlines with notes', () => {
+    const opml = `<?xml version="1.0"?>
+<opml version="2.0"><head><title>Course</title></head><body>
+  <outline text="Biology" _note="Life  sciences">
+    <outline text="Cell"><outline title="Nucleus"/></outline>
+  </outline>
+</body></opml>`;
+    expect(outline(importMindMap(opml, 'bio.opml').tree)).toEqual({
+      text: 'Biology', note: 'Life  sciences', children: [{ text: 'Cell', children: [{ text: 'Nucleus', children: [] }] }]
+    });
+    // Several top-level outlines are grouped under the document title.
+    const twoRoots = '<opml><head><title>Course</title></head><body><outline text="A"/><outline text="B"/></body></opml>';
+    expect(importMindMap(twoRoots, 'x.opml').tree.text).toBe('Course');
+  });
+
+  it('reads FreeMind maps, including rich text and notes', () => {
+    const mm = `<map version="1.0.1"><node TEXT="Root">
+  <node TEXT="Child"><richcontent TYPE="NOTE"><html><body><p>A note</p></body></html></richcontent></node>
+  <node><richcontent TYPE="NODE"><html><body><p>Rich  title</p></body></html></richcontent></node>
+</node></map>`;
+    expect(outline(importMindMap(mm, 'map.mm').tree)).toEqual({
+      text: 'Root', children: [{ text: 'Child', note: 'A note', children: [] }, { text: 'Rich title', children: [] }]
+    });
+  });
+
+  it('reads the sheets of an XMind content.json', () => {
+    const content = JSON.stringify([{ rootTopic: { title: 'Topic', notes: { plain: { content: 'See page 4' } }, children: { attached: [{ title: 'Sub' }] } } }]);
+    expect(outline(importMindMap(content, 'content.json').tree)).toEqual({
+      text: 'Topic', note: 'See page 4', children: [{ text: 'Sub', children: [] }]
+    });
+    expect(findImporter('content.json', content).id).toBe('json');
+    expect(findImporter('upload', content).id).toBe('xmind');
+  });
+
+  it('turns away zipped .xmind files with a pointer to content.json', () => {
+    expect(() => importMindMap('PK\u0003\u0004rest-of-zip', 'map.xmind')).toThrow(ImportError);
+    expect(() => importMindMap('PK\u0003\u0004rest-of-zip', 'map.xmind')).toThrow('content.json');
+    expect(acceptedExtensions()).toContain('.xmind');
+  });
+
+  it('falls back to Markdown for text without a known extension', () => {
+    expect(findImporter('notes', '# Title\n- Point').id).toBe('markdown');
+    expect(findImporter('notes.md', '<b>not xml</b>').id).toBe('markdown');
+    expect(outline(importMindMap('# Title\n- Point', 'notes').tree)).toEqual({ text: 'Title', children: [{ text: 'Point', children: [] }] });
+    // An unknown extension is not taken for plain text.
+    expect(() => findImporter('notes.docx', 'plain words')).toThrow('Unsupported file type ".docx"');
+  });
+
+  it('rejects malformed files with an ImportError', () => {
+    expect(() => importMindMap('<opml><body>', 'x.opml')).toThrow('Malformed OPML file');
+    expect(() => importMindMap('[{"rootTopic": ', 'x.xmind')).toThrow('Malformed JSON file');
+    expect(() => importMindMap('   ', 'x.md')).toThrow('The file is empty.');
+  });
+});
+
+describe('registerImporter', () => {
+  it('adds formats ahead of the Markdown fallback', () => {
+    const csv: Importer = {
+      id: 'csv',
+      label: 'CSV',
+      extensions: ['.csv'],
+      sniff: (content) => content.startsWith('topic,'),
+      parse: () => ({ tree: { id: 'r', text: 'CSV', children: [], isLeaf: true, level: 0 }, warnings: [] })
+    };
+    registerImporter(csv);
+    expect(importers[importers.length - 1]).toBe(csv);
+    expect(findImporter('data', 'topic,parent').id).toBe('csv');
+    expect(findImporter('data.csv', 'anything').id).toBe('csv');
+    expect(findImporter('notes', '# Title').id).toBe('markdown');
+  });
+});
@@ -0,0 +1,214 @@
+import { TreeNode } from '../types';
+import { RawNode, buildTree, parseMarkdownToTree } from './parser';
+
+// --- IMPORTERS ---
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+export interface ImportResult {
+  tree: TreeNode;
+  // Non-fatal problems, e.g. lines that could not be placed in the outline.
+  warnings: string[];
+}
+
+export interface Importer {
+  id: string;
+  label: string;
+  extensions: string[];
+  // Content check used when the extension is missing or unknown.
+  sniff: (content: string) => boolean;
+  parse: (content: string, fileName: string) => ImportResult;
+}
+
+const getExtension = (fileName: string): string => {
+  const match = fileName.toLowerCase().match(/\.[a-z0-9]+$/);
+  return match ? match[0] : '';
+};
+
+const baseName = (fileName: string): string => fileName.replace(/\.[^.]+$/, '') || 'Mind Map';
+
+// Multiple top-level topics are grouped under a root named after the file.
+const toTree = (roots: RawNode[], fileName: string, title?: string): ImportResult => {
+  const usable = roots.filter(r => r.text.length > 0);
+  if (usable.length === 0) throw new ImportError('The file does not contain any topics.');
+  if (usable.length === 1) return { tree: buildTree(usable[0]), warnings: [] };
+  return { tree: buildTree({ text: title || baseName(fileName), children: usable }), warnings: [] };
+};
+
+const parseXml = (content: string, format: string): Document => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  const error = doc.querySelector('parsererror');
+  if (error) throw new ImportError(`Malformed ${format} file: ${error.textContent?.trim().split('\n')[0] || 'invalid XML'}`);
+  return doc;
+};
+
+const parseJson = (content: string): unknown => {
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    throw new ImportError(`Malformed JSON file: ${(e as Error).message}`);
+  }
+};
+
+const clean = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+
+// Notes keep their line breaks; empty notes are dropped.
+const cleanNote = (text: string | null | undefined): string | undefined => {
+  const note = (text || '').split(/\r?\n/).map(l => l.trim()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  return note || undefined;
+};
+
+const markdownImporter: Importer = {
+  id: 'markdown',
+  label: 'Markdown / Indented Text',
+  extensions: ['.md', '.markdown', '.txt'],
+  sniff: (content) => !/^\s*[<{[]/.test(content),
+  parse: (content) => {
+    if (content.trim().length === 0) throw new ImportError('The file is empty.');
+    const { tree, unplaced } = parseMarkdownToTree(content);
+    if (!tree) throw new ImportError('No headings, list items or outline lines were found.');
+    return { tree, warnings: unplaced.map(u => `Line ${u.line}: ${u.reason} (${u.text})`) };
+  }
+};
+
+const opmlImporter: Importer = {
+  id: 'opml',
+  label: 'OPML',
+  extensions: ['.opml'],
+  sniff: (content) => /<opml[\s>]/i.test(content),
+  parse: (content, fileName) => {
+    const doc = parseXml(content, 'OPML');
+    const body = doc.querySelector('opml > body');
+    if (!body) throw new ImportError('Malformed OPML file: missing <body> element.');
+    const walk = (el: Element): RawNode => ({
+      text: clean(el.getAttribute('text') ?? el.getAttribute('title')),
+      note: cleanNote(el.getAttribute('_note')),
+      children: Array.from(el.children).filter(c => c.tagName === 'outline').map(walk)
+    });
+    const roots = Array.from(body.children).filter(c => c.tagName === 'outline').map(walk);
+    return toTree(roots, fileName, clean(doc.querySelector('opml > head > title')?.textContent));
+  }
+};
+
+const freemindImporter: Importer = {
+  id: 'freemind',
+  label: 'FreeMind',
+  extensions: ['.mm'],
+  sniff: (content) => /<map[\s>]/.test(content) && /<node[\s>]/.test(content),
+  parse: (content, fileName) => {
+    const doc = parseXml(content, 'FreeMind');
+    const map = doc.querySelector('map');
+    if (!map) throw new ImportError('Malformed FreeMind file: missing <map> element.');
+    const walk = (el: Element): RawNode => {
+      const rich = Array.from(el.children).find(c => c.tagName === 'richcontent' && c.getAttribute('TYPE') !== 'NOTE');
+      const note = Array.from(el.children).find(c => c.tagName === 'richcontent' && c.getAttribute('TYPE') === 'NOTE');
+      return {
+        text: clean(el.getAttribute('TEXT') ?? rich?.textContent),
+        note: cleanNote(note?.textContent),
+        children: Array.from(el.children).filter(c => c.tagName === 'node').map(walk)
+      };
+    };
+    const roots = Array.from(map.children).filter(c => c.tagName === 'node').map(walk);
+    return toTree(roots, fileName);
+  }
+};
+
+interface XMindTopic {
+  title?: string;
+  notes?: { plain?: { content?: string } };
+  children?: { attached?: XMindTopic[] };
+}
+
+const isXMindContent = (data: unknown): data is { rootTopic: XMindTopic }[] =>
+  Array.isArray(data) && data.length > 0 && data.every(s => s && typeof s === 'object' && 'rootTopic' in s);
+
+const xmindImporter: Importer = {
+  id: 'xmind',
+  label: 'XMind (content.json)',
+  // Zipped .xmind files are turned away in findImporter with a pointer to their content.json.
+  extensions: ['.xmind'],
+  sniff: (content) => /^\s*\[/.test(content) && content.includes('"rootTopic"'),
+  parse: (content, fileName) => {
+    const data = parseJson(content);
+    if (!isXMindContent(data)) throw new ImportError('Malformed XMind file: expected the sheets array from content.json.');
+    const walk = (topic: XMindTopic): RawNode => ({
+      text: clean(topic.title),
+      note: cleanNote(topic.notes?.plain?.content),
+      children: (topic.children?.attached || []).map(walk)
+    });
+    return toTree(data.map(sheet => walk(sheet.rootTopic)), fileName);
+  }
+};
+
+const JSON_TEXT_KEYS = ['text', 'title', 'name', 'topic', 'label'];
+
+const jsonImporter: Importer = {
+  id: 'json',
+  label: 'JSON Tree',
+  extensions: ['.json'],
+  sniff: (content) => /^\s*[{[]/.test(content),
+  parse: (content, fileName) => {
+    const data = parseJson(content);
+    if (isXMindContent(data)) return xmindImporter.parse(content, fileName);
+    const walk = (value: unknown, path: string): RawNode => {
+      if (typeof value === 'string') return { text: clean(value), children: [] };
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ImportError(`Malformed JSON tree: expected a node object at ${path}.`);
+      }
+      const obj = value as Record<string, unknown>;
+      const key = JSON_TEXT_KEYS.find(k => typeof obj[k] === 'string');
+      if (!key) throw new ImportError(`Malformed JSON tree: node at ${path} has no text.`);
+      const children = obj.children ?? [];
+      if (!Array.isArray(children)) throw new ImportError(`Malformed JSON tree: children at ${path} must be an array.`);
+      const note = typeof obj.note === 'string' ? obj.note : typeof obj.notes === 'string' ? obj.notes : undefined;
+      return { text: clean(obj[key] as string), note: cleanNote(note), children: children.map((c, i) => walk(c, `${path}.children[${i}]`)) };
+    };
+    const roots = Array.isArray(data) ? data.map((d, i) => walk(d, `[${i}]`)) : [walk(data, 'root')];
+    return toTree(roots, fileName);
+  }
+};
+
+// Order matters for sniffing: the most specific formats come first.
+export const importers: Importer[] = [
+  opmlImporter,
+  freemindImporter,
+  xmindImporter,
+  jsonImporter
+];
+
+// Plain text is tried last, whatever has been registered since.
+const fallbackImporter = markdownImporter;
+
+export const registerImporter = (importer: Importer) => {
+  importers.push(importer);
+};
+
+const allImporters = (): Importer[] => [...importers, fallbackImporter];
+
+export const acceptedExtensions = (): string =>
+  Array.from(new Set(allImporters().flatMap(i => i.extensions))).join(',');
+
+export const findImporter = (fileName: string, content: string): Importer => {
+  if (content.startsWith('PK\u0003\u0004')) {
+    throw new ImportError('Archive files are not supported. For XMind, upload the content.json found inside the .xmind file.');
+  }
+  if (content.includes('\u0000')) throw new ImportError('Binary files are not supported.');
+
+  const ext = getExtension(fileName);
+  const byExtension = allImporters().find(i => i.extensions.includes(ext));
+  if (byExtension) return byExtension;
+
+  const bySniff = importers.find(i => i.sniff(content));
+  if (bySniff) return bySniff;
+  // An unknown extension is not taken for plain text.
+  if (!ext && fallbackImporter.sniff(content)) return fallbackImporter;
+  throw new ImportError(`Unsupported file type${ext ? ` "${ext}"` : ''}. Supported: ${acceptedExtensions()}`);
+};
+
+export const importMindMap = (content: string, fileName: string): ImportResult =>
+  findImporter(fileName, content).parse(content, fileName);
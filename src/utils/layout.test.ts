@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { TreeNode } from '../types';
+import { RADIAL_RING_WIDTH, TREE_COLUMN_WIDTH, TREE_ROW_HEIGHT, layoutTree } from './layout';
+
+const node = (id: string, level: number, children: TreeNode[] = []): TreeNode => ({ id, text: id, children, isLeaf: children.length === 0, level });
+
+const tree = node('root', 0, [
+  node('a', 1, [node('a1', 2), node('a2', 2), node('a3', 2)]),
+  node('b', 1)
+]);
+
+const allChildren = (n: TreeNode) => n.children;
+const collapsing = (id: string) => (n: TreeNode) => (n.id === id ? [] : n.children);
+
+describe('layoutTree', () => {
+  it('puts leaves on consecutive rows and parents between their children', () => {
+    const { nodes, bounds } = layoutTree(tree, allChildren, 'tree');
+    const at = Object.fromEntries(nodes.map(n => [n.node.id, n]));
+    expect(nodes.map(n => n.node.id)).toEqual(['root', 'a', 'a1', 'a2', 'a3', 'b']);
+    expect([at.a1.y, at.a2.y, at.a3.y, at.b.y]).toEqual([0, 1, 2, 3].map(r => r * TREE_ROW_HEIGHT));
+    expect(at.a).toMatchObject({ parentId: 'root', depth: 1, x: TREE_COLUMN_WIDTH, y: TREE_ROW_HEIGHT });
+    expect(at.root.y).toBe((at.a.y + at.b.y) / 2);
+    expect(at.a2.x).toBeGreaterThan(at.a.x);
+    expect(bounds).toEqual({ minX: 0, minY: 0, maxX: 2 * TREE_COLUMN_WIDTH, maxY: 3 * TREE_ROW_HEIGHT });
+  });
+
+  it('leaves out collapsed subtrees', () => {
+    const { nodes, bounds } = layoutTree(tree, collapsing('a'), 'tree');
+    expect(nodes.map(n => n.node.id)).toEqual(['root', 'a', 'b']);
+    expect(bounds.maxY).toBe(TREE_ROW_HEIGHT);
+    expect(layoutTree(tree, collapsing('root'), 'radial').nodes.map(n => n.node.id)).toEqual(['root']);
+  });
+
+  it('gives radial wedges by visible leaves, one ring per depth', () => {
+    const { nodes, bounds } = layoutTree(tree, allChildren, 'radial');
+    const at = Object.fromEntries(nodes.map(n => [n.node.id, n]));
+    expect(at.root).toMatchObject({ x: 0, y: 0 });
+    nodes.forEach(n => expect(Math.hypot(n.x, n.y)).toBeCloseTo(n.depth * RADIAL_RING_WIDTH));
+    // 'a' has three of the four leaves, so its wedge is centred a quarter turn past the start.
+    expect(Math.atan2(at.a.y, at.a.x)).toBeCloseTo(-Math.PI / 4);
+    expect(Math.atan2(at.b.y, at.b.x)).toBeCloseTo((3 * Math.PI) / 4);
+    expect(bounds.maxX).toBeLessThanOrEqual(2 * RADIAL_RING_WIDTH);
+    expect(bounds.minX).toBeGreaterThanOrEqual(-2 * RADIAL_RING_WIDTH);
+
+    // Collapsing 'a' leaves two single-leaf wedges of half a turn each.
+    const collapsed = Object.fromEntries(layoutTree(tree, collapsing('a'), 'radial').nodes.map(n => [n.node.id, n]));
+    expect(Math.atan2(collapsed.a.y, collapsed.a.x)).toBeCloseTo(-Math.PI / 2);
+  });
+});
@@ -0,0 +1,96 @@
+import { CanvasLayout, TreeNode } from '../types';
+
+// --- CANVAS LAYOUT ---
+
+export interface PositionedNode {
+  node: TreeNode;
+  parentId: string | null;
+  depth: number;
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface CanvasLayoutResult {
+  nodes: PositionedNode[];
+  bounds: Bounds;
+}
+
+export const TREE_COLUMN_WIDTH = 380;
+export const TREE_ROW_HEIGHT = 76;
+export const RADIAL_RING_WIDTH = 320;
+
+// Visible leaves under every node, counted in one post-order walk.
+const countLeaves = (root: TreeNode, visibleChildren: (n: TreeNode) => TreeNode[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const walk = (node: TreeNode): number => {
+    const children = visibleChildren(node);
+    const count = children.length === 0 ? 1 : children.reduce((sum, c) => sum + walk(c), 0);
+    counts.set(node.id, count);
+    return count;
+  };
+  walk(root);
+  return counts;
+};
+
+// Left-to-right tree: leaves take consecutive rows, parents sit centred on their children.
+const layoutLeftToRight = (root: TreeNode, visibleChildren: (n: TreeNode) => TreeNode[]): PositionedNode[] => {
+  const nodes: PositionedNode[] = [];
+  let row = 0;
+  const place = (node: TreeNode, parentId: string | null, depth: number): number => {
+    const entry: PositionedNode = { node, parentId, depth, x: depth * TREE_COLUMN_WIDTH, y: 0 };
+    nodes.push(entry);
+    const children = visibleChildren(node);
+    if (children.length === 0) {
+      entry.y = row++ * TREE_ROW_HEIGHT;
+    } else {
+      const ys = children.map(c => place(c, node.id, depth + 1));
+      entry.y = (ys[0] + ys[ys.length - 1]) / 2;
+    }
+    return entry.y;
+  };
+  place(root, null, 0);
+  return nodes;
+};
+
+// Radial: every subtree gets a wedge proportional to its number of visible leaves.
+const layoutRadial = (root: TreeNode, visibleChildren: (n: TreeNode) => TreeNode[]): PositionedNode[] => {
+  const nodes: PositionedNode[] = [];
+  const leaves = countLeaves(root, visibleChildren);
+  const place = (node: TreeNode, parentId: string | null, depth: number, start: number, end: number) => {
+    const angle = (start + end) / 2;
+    const radius = depth * RADIAL_RING_WIDTH;
+    nodes.push({ node, parentId, depth, x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+    const children = visibleChildren(node);
+    const total = leaves.get(node.id) ?? 1;
+    let cursor = start;
+    children.forEach(c => {
+      const span = ((end - start) * (leaves.get(c.id) ?? 1)) / total;
+      place(c, node.id, depth + 1, cursor, cursor + span);
+      cursor += span;
+    });
+  };
+  place(root, null, 0, -Math.PI, Math.PI);
+  return nodes;
+};
+
+export const layoutTree = (
+  root: TreeNode,
+  visibleChildren: (n: TreeNode) => TreeNode[],
+  mode: CanvasLayout
+): CanvasLayoutResult => {
+  const nodes = mode === 'radial' ? layoutRadial(root, visibleChildren) : layoutLeftToRight(root, visibleChildren);
+  const bounds = nodes.reduce<Bounds>((b, n) => ({
+    minX: Math.min(b.minX, n.x),
+    minY: Math.min(b.minY, n.y),
+    maxX: Math.max(b.maxX, n.x),
+    maxY: Math.max(b.maxY, n.y)
+  }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+  return { nodes, bounds };
+};
@@ -0,0 +1,73 @@
+import { Session } from '../types';
+
+// --- SESSION LIBRARY ---
+// Titles, courses and tags for organising the dashboard list.
+
+export type SessionSort = 'recent' | 'progress' | 'due' | 'name';
+
+export const SESSION_SORT_LABELS: Record<SessionSort, string> = {
+  recent: 'Last studied',
+  progress: 'Progress',
+  due: 'Due items',
+  name: 'Name'
+};
+
+// The edited title, or the imported file's name until one is set.
+export const sessionTitle = (session: Session): string => session.title?.trim() || session.fileName;
+
+// "biology, exam 2, Biology" -> ["biology", "exam 2"]
+export const parseTags = (text: string): string[] => {
+  const tags = text.split(',').map(t => t.trim().replace(/^#/, '')).filter(t => t.length > 0);
+  return tags.filter((t, i) => tags.findIndex(o => o.toLowerCase() === t.toLowerCase()) === i);
+};
+
+/**
+ * Every word of the query must appear in the title, file name, course or a
+ * tag; "#word" only matches a tag of exactly that name.
+ */
+export const matchesSessionQuery = (session: Session, query: string): boolean => {
+  const tags = (session.tags || []).map(t => t.toLowerCase());
+  const haystack = [sessionTitle(session), session.fileName, session.course || '', ...tags].join('\n').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(w => w.length > 0).every(word =>
+    word.startsWith('#') ? tags.includes(word.slice(1)) : haystack.includes(word)
+  );
+};
+
+export const sortSessions = (sessions: Session[], sort: SessionSort, dueCounts: Record<string, number>): Session[] => {
+  const byName = (a: Session, b: Session) => sessionTitle(a).localeCompare(sessionTitle(b), undefined, { numeric: true });
+  const compare: Record<SessionSort, (a: Session, b: Session) => number> = {
+    recent: (a, b) => b.lastUpdated - a.lastUpdated,
+    progress: (a, b) => b.progress - a.progress || byName(a, b),
+    due: (a, b) => (dueCounts[b.id] ?? 0) - (dueCounts[a.id] ?? 0) || byName(a, b),
+    name: byName
+  };
+  return [...sessions].sort(compare[sort]);
+};
+
+// Course groups in name order, sessions without a course last under ''.
+export const groupByCourse = (sessions: Session[]): [string, Session[]][] => {
+  const groups = new Map<string, Session[]>();
+  sessions.forEach(s => {
+    const course = s.course?.trim() || '';
+    groups.set(course, [...(groups.get(course) || []), s]);
+  });
+  return [...groups.entries()].sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)));
+};
+
+export const courseNames = (sessions: Session[]): string[] =>
+  [...new Set(sessions.map(s => s.course?.trim() || '').filter(c => c.length > 0))].sort((a, b) => a.localeCompare(b));
+
+export const tagNames = (sessions: Session[]): string[] =>
+  [...new Set(sessions.flatMap(s => s.tags || []))].sort((a, b) => a.localeCompare(b));
+
+// Same map and settings under a new id, starting without progress or history.
+export const duplicateSession = (session: Session, id: string): Session => ({
+  ...session,
+  id,
+  title: `${sessionTitle(session)} (copy)`,
+  nodeStates: {},
+  progress: 0,
+  attempts: undefined,
+  exams: undefined,
+  lastUpdated: Date.now()
+});
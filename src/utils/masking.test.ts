@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, MaskingPolicy, NodeState, Session, TreeNode } from '../types';
+import { createMaskPredicate, describePolicy, maskPredicateForSession } from './masking';
+
+const node = (id: string, level: number, children: TreeNode[] = [], text = id): TreeNode => ({ id, text, children, isLeaf: children.length === 0, level });
+
+const tree = node('root', 0, [
+  node('a', 1, [node('a1', 2, [node('a1x', 3)]), node('a2', 2)]),
+  node('b', 1, [], 'b'),
+  node('c', 1, [node('c1', 2)], '{{Cloze}} parent')
+]);
+
+const all = (root: TreeNode): TreeNode[] => [root, ...root.children.flatMap(all)];
+
+const maskedIds = (policy: MaskingPolicy, nodeStates: Record<string, NodeState> = {}, seed = 's') => {
+  const isMasked = createMaskPredicate(policy, { root: tree, nodeStates, seed });
+  return all(tree).filter(isMasked).map(n => n.id);
+};
+
+describe('createMaskPredicate', () => {
+  it('masks by scope; cloze nodes qualify whatever the scope', () => {
+    expect(maskedIds({ scope: 'leaves' })).toEqual(['a1x', 'a2', 'b', 'c', 'c1']);
+    expect(maskedIds({ scope: 'leaves-and-parents' })).toEqual(['a', 'a1', 'a1x', 'a2', 'b', 'c', 'c1']);
+    expect(maskedIds({ scope: 'all' })).toEqual(['a', 'a1', 'a1x', 'a2', 'b', 'c', 'c1']);
+  });
+
+  it('narrows by level, stars and branch', () => {
+    expect(maskedIds({ scope: 'all', minLevel: 2, maxLevel: 2 })).toEqual(['a1', 'a2', 'c1']);
+    const starred: NodeState = { isSolved: false, isStarred: true, isCollapsed: false, hintCount: 0 };
+    expect(maskedIds({ scope: 'all', starredOnly: true }, { b: starred })).toEqual(['b']);
+    expect(maskedIds({ scope: 'all', subtreeId: 'a1' })).toEqual(['a1', 'a1x']);
+    // A branch from another map is ignored.
+    expect(maskedIds({ scope: 'leaves', subtreeId: 'missing' })).toEqual(maskedIds({ scope: 'leaves' }));
+  });
+
+  it('picks the same random share for the same seed', () => {
+    const policy: MaskingPolicy = { scope: 'all', randomPercent: 50 };
+    expect(maskedIds(policy, {}, 'one')).toEqual(maskedIds(policy, {}, 'one'));
+    expect(maskedIds({ scope: 'all', randomPercent: 0 })).toEqual([]);
+    expect(maskedIds({ scope: 'all', randomPercent: 100 })).toEqual(maskedIds({ scope: 'all' }));
+  });
+});
+
+describe('session policies', () => {
+  it('uses the difficulty level unless a policy overrides it', () => {
+    const session: Session = { id: 's', fileName: 's', data: tree, difficulty: DifficultyLevel.INTERMEDIATE, nodeStates: {}, lastUpdated: 0, progress: 0 };
+    expect(all(tree).filter(maskPredicateForSession(session)).map(n => n.id)).toEqual(maskedIds({ scope: 'leaves-and-parents' }));
+    const custom = { ...session, maskingPolicy: { scope: 'leaves' as const, maxLevel: 1 } };
+    expect(all(tree).filter(maskPredicateForSession(custom)).map(n => n.id)).toEqual(['b', 'c']);
+  });
+
+  it('describes a policy', () => {
+    expect(describePolicy({ scope: 'leaves', minLevel: 2, randomPercent: 30, starredOnly: true })).toBe('Leaves, level 2–∞, 30% random, starred');
+  });
+});
@@ -0,0 +1,79 @@
+import { DifficultyLevel, MaskingPolicy, NodeState, Session, TreeNode } from '../types';
+import { clozeCount } from './cloze';
+import { findNode } from './treeEdit';
+
+// --- MASKING ---
+
+// The three built-in levels expressed as policies.
+export const DIFFICULTY_POLICIES: Record<DifficultyLevel, MaskingPolicy> = {
+  [DifficultyLevel.BASIC]: { scope: 'leaves' },
+  [DifficultyLevel.INTERMEDIATE]: { scope: 'leaves-and-parents' },
+  [DifficultyLevel.MASTER]: { scope: 'all' }
+};
+
+export const policyForSession = (session: Session): MaskingPolicy =>
+  session.maskingPolicy ?? DIFFICULTY_POLICIES[session.difficulty];
+
+// Stable pseudo-random value in [0, 1) for a seed and node id.
+const seededRandom = (seed: string, id: string): number => {
+  let hash = 0x811c9dc5;
+  const value = `${seed}:${id}`;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0x5bd1e995);
+  hash ^= hash >>> 15;
+  return (hash >>> 0) / 0x100000000;
+};
+
+const collectIds = (node: TreeNode, ids: Set<string>) => {
+  ids.add(node.id);
+  node.children.forEach(c => collectIds(c, ids));
+};
+
+/**
+ * Builds the single "is this node masked?" predicate used by rendering,
+ * progress, quizzes and analytics. The root is never masked.
+ */
+export const createMaskPredicate = (
+  policy: MaskingPolicy,
+  context: { root: TreeNode; nodeStates: Record<string, NodeState>; seed: string }
+): ((n: TreeNode) => boolean) => {
+  // A branch that is not in this map (e.g. a preset made on another map) is ignored.
+  let subtree: Set<string> | null = null;
+  const start = policy.subtreeId ? findNode(context.root, policy.subtreeId) : null;
+  if (start) {
+    subtree = new Set();
+    collectIds(start, subtree);
+  }
+
+  return (n: TreeNode) => {
+    if (n.level === 0) return false;
+    // Cloze blanks are marked by the author, so those nodes qualify whatever the scope.
+    const hasBlanks = clozeCount(n.text) > 0;
+    if (!hasBlanks && policy.scope === 'leaves' && !n.isLeaf) return false;
+    if (!hasBlanks && policy.scope === 'leaves-and-parents' && !n.isLeaf && !n.children.some(c => c.isLeaf)) return false;
+    if (policy.minLevel !== undefined && n.level < policy.minLevel) return false;
+    if (policy.maxLevel !== undefined && n.level > policy.maxLevel) return false;
+    if (policy.starredOnly && !context.nodeStates[n.id]?.isStarred) return false;
+    if (subtree && !subtree.has(n.id)) return false;
+    if (policy.randomPercent !== undefined && seededRandom(context.seed, n.id) * 100 >= policy.randomPercent) return false;
+    return true;
+  };
+};
+
+export const maskPredicateForSession = (session: Session): ((n: TreeNode) => boolean) =>
+  createMaskPredicate(policyForSession(session), { root: session.data, nodeStates: session.nodeStates, seed: session.id });
+
+export const describePolicy = (policy: MaskingPolicy): string => {
+  const parts = [policy.scope === 'all' ? 'All nodes' : policy.scope === 'leaves' ? 'Leaves' : 'Leaves + parents'];
+  if (policy.minLevel !== undefined || policy.maxLevel !== undefined) {
+    parts.push(`level ${policy.minLevel ?? 1}–${policy.maxLevel ?? '∞'}`);
+  }
+  if (policy.randomPercent !== undefined) parts.push(`${policy.randomPercent}% random`);
+  if (policy.starredOnly) parts.push('starred');
+  if (policy.subtreeId) parts.push('one branch');
+  return parts.join(', ');
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EMPTY_NODE_STATE, changedNodeIds, createNodeStateStore, patchNodeState } from './nodeStateStore';
+
+describe('patchNodeState', () => {
+  it('applies the patch and stamps only the fields it sets', () => {
+    const solved = patchNodeState(undefined, { isSolved: true, hintCount: 1 }, 100);
+    expect(solved).toMatchObject({ isSolved: true, hintCount: 1, isStarred: false, updatedAt: { isSolved: 100, hintCount: 100 } });
+    const starred = patchNodeState(solved, { isStarred: true }, 200);
+    expect(starred.updatedAt).toEqual({ isSolved: 100, hintCount: 100, isStarred: 200 });
+    expect(solved.updatedAt).toEqual({ isSolved: 100, hintCount: 100 });
+  });
+});
+
+describe('changedNodeIds', () => {
+  it('lists replaced, added and removed states', () => {
+    const a = patchNodeState(undefined, { isSolved: true }, 1);
+    const b = patchNodeState(undefined, { isStarred: true }, 1);
+    const prev = { a, b };
+    expect(changedNodeIds(prev, prev)).toEqual([]);
+    expect(changedNodeIds(prev, { ...prev, a: patchNodeState(a, { hintCount: 1 }, 2) })).toEqual(['a']);
+    expect(changedNodeIds(prev, { a, c: b }).sort()).toEqual(['b', 'c']);
+  });
+});
+
+describe('createNodeStateStore', () => {
+  it('notifies only the subscribers of states that changed', () => {
+    const a = patchNodeState(undefined, { isSolved: true }, 1);
+    const store = createNodeStateStore({ a });
+    const onA = vi.fn();
+    const onB = vi.fn();
+    store.subscribe('a', onA);
+    const unsubscribeB = store.subscribe('b', onB);
+    expect(store.get('b')).toBe(EMPTY_NODE_STATE);
+
+    const b = patchNodeState(undefined, { isStarred: true }, 2);
+    store.sync({ a, b });
+    expect(onA).not.toHaveBeenCalled();
+    expect(onB).toHaveBeenCalledTimes(1);
+    expect(store.get('b')).toBe(b);
+
+    unsubscribeB();
+    store.sync({ a: patchNodeState(a, { hintCount: 1 }, 3), b: EMPTY_NODE_STATE });
+    expect(onA).toHaveBeenCalledTimes(1);
+    expect(onB).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,70 @@
+import { NodeState } from '../types';
+
+// --- NODE STATE SUBSCRIPTIONS ---
+// Rows subscribe to their own node, so an update re-renders only the rows whose state object changed.
+
+export const EMPTY_NODE_STATE: NodeState = { isSolved: false, isStarred: false, isCollapsed: false, hintCount: 0 };
+
+// Applies `patch` and stamps the fields it sets; every change to a node's state goes through here.
+export const patchNodeState = (state: NodeState | undefined, patch: Partial<NodeState>, now: number = Date.now()): NodeState => {
+  const updatedAt = { ...state?.updatedAt };
+  (Object.keys(patch) as (keyof NodeState)[]).forEach(field => {
+    if (field !== 'updatedAt') updatedAt[field] = now;
+  });
+  return { ...(state ?? EMPTY_NODE_STATE), ...patch, updatedAt };
+};
+
+// Nodes whose state object was replaced between two snapshots; updates copy only the states they touch.
+export const changedNodeIds = (prev: Record<string, NodeState>, next: Record<string, NodeState>): string[] => {
+  const ids = Object.keys(next).filter(id => prev[id] !== next[id]);
+  Object.keys(prev).forEach(id => { if (!(id in next)) ids.push(id); });
+  return ids;
+};
+
+// Structural comparison that ignores key order; also used for other stored session fields.
+export const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  // Undefined fields count as missing, as they do once stored.
+  const keys = (r: Record<string, unknown>) => Object.keys(r).filter(k => r[k] !== undefined);
+  const aKeys = keys(aRecord);
+  return aKeys.length === keys(bRecord).length && aKeys.every(k => isEqual(aRecord[k], bRecord[k]));
+};
+
+export const sameNodeStates = (a: Record<string, NodeState>, b: Record<string, NodeState>): boolean => isEqual(a, b);
+
+export interface NodeStateStore {
+  get: (nodeId: string) => NodeState;
+  subscribe: (nodeId: string, listener: () => void) => () => void;
+  // Swap in a new snapshot and notify the subscribers of every entry that changed.
+  sync: (nodeStates: Record<string, NodeState>) => void;
+}
+
+export const createNodeStateStore = (initial: Record<string, NodeState>): NodeStateStore => {
+  let current = initial;
+  const listeners = new Map<string, Set<() => void>>();
+
+  return {
+    get: (nodeId) => current[nodeId] ?? EMPTY_NODE_STATE,
+    subscribe: (nodeId, listener) => {
+      const set = listeners.get(nodeId) ?? new Set();
+      set.add(listener);
+      listeners.set(nodeId, set);
+      return () => {
+        set.delete(listener);
+        if (set.size === 0) listeners.delete(nodeId);
+      };
+    },
+    sync: (nodeStates) => {
+      if (nodeStates === current) return;
+      const previous = current;
+      current = nodeStates;
+      // Only mounted rows listen, so this is bounded by the viewport, not the map size.
+      listeners.forEach((set, nodeId) => {
+        if (previous[nodeId] !== nodeStates[nodeId]) set.forEach(listener => listener());
+      });
+    }
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { TreeNode } from '../types';
+import { parseMarkdownToTree } from './parser';
+
+// Text outline of a tree: one line per node, indented two spaces per level.
+const outline = (node: TreeNode | null, depth = 0): string =>
+  node ? [`${'  '.repeat(depth)}${node.text}`, ...node.children.map(c => outline(c, depth + 1))].join('\n') : '';
+
+describe('parseMarkdownToTree', () => {
+  it('nests list items under headings by indentation', () => {
+    const { tree, unplaced } = parseMarkdownToTree('# Biology\n## Cell\n- Membrane\n  - Lipids\n- [x] Nucleus\n## Genetics ##\n1. Gene');
+    expect(outline(tree)).toBe('Biology\n  Cell\n    Membrane\n      Lipids\n    Nucleus\n  Genetics\n    Gene');
+    expect(unplaced).toEqual([]);
+    expect(tree?.children[0].level).toBe(1);
+    expect(tree?.children[0].isLeaf).toBe(false);
+  });
+
+  it('nests plain lines by indentation when there is no Markdown, with tabs as four spaces', () => {
+    const { tree } = parseMarkdownToTree('Biology\n\tCell\n    \tMembrane\n    Genetics');
+    expect(outline(tree)).toBe('Biology\n  Cell\n    Membrane\n  Genetics');
+  });
+
+  it('ignores a leading byte order mark', () => {
+    const { tree } = parseMarkdownToTree('\uFEFF# Biology\n- Cell');
+    expect(outline(tree)).toBe('Biology\n  Cell');
+  });
+
+  it('turns indented quotes into notes and skips front matter and code', () => {
+    const text = '---\ntitle: x\n---\n- Cell\n  > The unit of life.\n  > Small.\n```\n- not a node\n```\n- Gene';
+    const { tree } = parseMarkdownToTree(text);
+    expect(outline(tree)).toBe('Cell\n  Gene');
+    expect(tree?.note).toBe('The unit of life.\nSmall.');
+  });
+
+  it('reports lines it cannot place', () => {
+    const { unplaced } = parseMarkdownToTree('# Title\n-\n<div>x</div>\n```\ncode');
+    expect(unplaced.map(u => [u.line, u.reason])).toEqual([
+      [2, 'List item has no text'],
+      [3, 'HTML is not supported'],
+      [4, 'Unclosed code fence; the rest of the file was ignored']
+    ]);
+  });
+
+  it('gives the same ids when the same text is parsed again', () => {
+    const text = '# A\n- B\n- B\n- C';
+    const first = parseMarkdownToTree(text).tree!;
+    const second = parseMarkdownToTree(text).tree!;
+    expect(second.children.map(c => c.id)).toEqual(first.children.map(c => c.id));
+    expect(new Set(first.children.map(c => c.id)).size).toBe(3);
+  });
+
+  it('returns no tree for an empty file', () => {
+    expect(parseMarkdownToTree('\n\n').tree).toBeNull();
+  });
+});
@@ -1,3 +1,216 @@
-
-// Redundant. Moved to App.tsx
-export {};
+import { TreeNode } from '../types';
+
+// --- PARSING ---
+
+export const generateId = () => Math.random().toString(36).substring(2, 11);
+
+// FNV-1a, enough to turn a node path into a short stable id.
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Ids derive from the text path and sibling position, so re-parsing the same file yields the same ids.
+const pathId = (parentId: string, text: string, occurrence: number): string =>
+  hashString(`${parentId}/${text}#${occurrence}`);
+
+export const assignPathIds = (node: TreeNode, parentId = '', occurrence = 0): TreeNode => {
+  node.id = pathId(parentId, node.text, occurrence);
+  const seen: Record<string, number> = {};
+  node.children.forEach(c => {
+    seen[c.text] = (seen[c.text] ?? -1) + 1;
+    assignPathIds(c, node.id, seen[c.text]);
+  });
+  return node;
+};
+
+// Intermediate outline produced by importers before ids and levels are assigned.
+export interface RawNode {
+  text: string;
+  children: RawNode[];
+  note?: string;
+}
+
+const buildNode = (raw: RawNode, level: number): TreeNode => {
+  const children = raw.children.map(c => buildNode(c, level + 1));
+  return {
+    id: '',
+    text: raw.text,
+    ...(raw.note ? { note: raw.note } : {}),
+    children,
+    isLeaf: children.length === 0,
+    level
+  };
+};
+
+export const buildTree = (raw: RawNode): TreeNode => assignPathIds(buildNode(raw, 0));
+
+const TAB_WIDTH = 4;
+// List items always sit below any heading, so their depth is offset past h6.
+const LIST_DEPTH_OFFSET = 10;
+
+const HEADING_RE = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*$/;
+const LIST_RE = /^(\s*)(?:[-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+const RULE_RE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const NOTE_RE = /^(\s*)>\s?(.*)$/;
+
+export interface UnplacedLine {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface MarkdownParseResult {
+  tree: TreeNode | null;
+  unplaced: UnplacedLine[];
+}
+
+// Expands leading tabs to the next tab stop so tabs and spaces indent alike.
+const expandTabs = (line: string): string => {
+  let indent = '';
+  let i = 0;
+  for (; i < line.length && (line[i] === ' ' || line[i] === '\t'); i++) {
+    indent += line[i] === '\t' ? ' '.repeat(TAB_WIDTH - (indent.length % TAB_WIDTH)) : ' ';
+  }
+  return indent + line.slice(i);
+};
+
+const cleanItemText = (text: string): string =>
+  text
+    .replace(/^\[[ xX]\]\s+/, '') // task list checkbox
+    .replace(/\s+#+\s*$/, '') // closing heading hashes
+    .trim();
+
+const trimNotes = (node: TreeNode) => {
+  if (node.note !== undefined) {
+    node.note = node.note.trim();
+    if (!node.note) delete node.note;
+  }
+  node.children.forEach(trimNotes);
+};
+
+/**
+ * Builds an outline from Markdown or indented text. Headings define the
+ * hierarchy, list items nest under the nearest heading by indentation and,
+ * when a file has no Markdown markers at all, plain lines nest by indentation.
+ * A `> quote` indented below a node becomes that node's note.
+ * The first item becomes the root; later top-level items are attached to it.
+ */
+export const parseMarkdownToTree = (text: string): MarkdownParseResult => {
+  const rawLines = text.replace(/^\uFEFF/, '').split(/\r?\n/).map(expandTabs);
+  const unplaced: UnplacedLine[] = [];
+  const skipped = new Set<number>();
+
+  // Front-matter and fenced code blocks never contribute nodes.
+  let start = 0;
+  while (start < rawLines.length && rawLines[start].trim() === '') start++;
+  if (rawLines[start]?.trim() === '---') {
+    const end = rawLines.findIndex((l, i) => i > start && /^(---|\.\.\.)\s*$/.test(l.trim()));
+    if (end !== -1) {
+      for (let i = start; i <= end; i++) skipped.add(i);
+    }
+  }
+
+  let fenceMarker = '';
+  let fenceLine = -1;
+  for (let i = 0; i < rawLines.length; i++) {
+    if (skipped.has(i)) continue;
+    const match = rawLines[i].match(FENCE_RE);
+    if (fenceMarker) {
+      skipped.add(i);
+      if (match && match[1][0] === fenceMarker[0] && match[1].length >= fenceMarker.length && rawLines[i].trim() === match[1]) {
+        fenceMarker = '';
+      }
+    } else if (match) {
+      skipped.add(i);
+      fenceMarker = match[1];
+      fenceLine = i;
+    }
+  }
+  if (fenceMarker) {
+    unplaced.push({ line: fenceLine + 1, text: rawLines[fenceLine].trim(), reason: 'Unclosed code fence; the rest of the file was ignored' });
+  }
+
+  const isMarkdown = rawLines.some((line, i) =>
+    !skipped.has(i) && !RULE_RE.test(line) && (HEADING_RE.test(line) || LIST_RE.test(line)));
+
+  const stack: { node: TreeNode; depth: number }[] = [];
+  let root: TreeNode | null = null;
+  // The most recently placed node and the indentation of its line; indented quotes below it are its note.
+  let last: { node: TreeNode; indent: number } | null = null;
+
+  const place = (text: string, depth: number, indent: number) => {
+    const node: TreeNode = { id: '', text, children: [], isLeaf: true, level: 0 };
+    last = { node, indent };
+    if (!root) {
+      root = node;
+      stack.push({ node, depth });
+      return;
+    }
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+    const parent = stack.length > 0 ? stack[stack.length - 1].node : root;
+    parent.children.push(node);
+    parent.isLeaf = false;
+    node.level = parent.level + 1;
+    stack.push({ node, depth });
+  };
+
+  rawLines.forEach((line, i) => {
+    if (skipped.has(i) || line.trim() === '') return;
+    const report = (reason: string) => unplaced.push({ line: i + 1, text: line.trim(), reason });
+
+    if (RULE_RE.test(line)) return;
+
+    const indent = line.length - line.trimStart().length;
+    const note = line.match(NOTE_RE);
+    if (note && last && indent > last.indent) {
+      const target: TreeNode = last.node;
+      target.note = target.note === undefined ? note[2].trimEnd() : `${target.note}\n${note[2].trimEnd()}`;
+      return;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      const headingText = cleanItemText(heading[2] || '');
+      if (headingText) place(headingText, heading[1].length, indent);
+      else report('Heading has no text');
+      return;
+    }
+
+    const item = line.match(LIST_RE);
+    if (item) {
+      const itemText = cleanItemText(item[2] || '');
+      if (itemText) place(itemText, LIST_DEPTH_OFFSET + item[1].length, indent);
+      else report('List item has no text');
+      return;
+    }
+
+    const trimmed = line.trim();
+    if (!isMarkdown) {
+      place(trimmed, LIST_DEPTH_OFFSET + indent, indent);
+      return;
+    }
+
+    // Paragraphs, unindented quotes and tables are prose around the outline.
+    if (/^(>|\|)/.test(trimmed)) return;
+    if (/^<\/?[a-zA-Z]/.test(trimmed)) {
+      report('HTML is not supported');
+      return;
+    }
+    if (/^(=+|-+)$/.test(trimmed)) {
+      report('Setext heading underline is not supported; use # headings');
+    }
+  });
+
+  unplaced.sort((a, b) => a.line - b.line);
+  const tree: TreeNode | null = root;
+  if (tree) trimNotes(tree);
+  return { tree: tree ? assignPathIds(tree) : null, unplaced };
+};
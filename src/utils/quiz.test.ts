@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { TreeNode } from '../types';
+import { patchNodeState } from './nodeStateStore';
+import { buildChoices, collectOrderingItems, collectQuizItems, isInOrder, isInPlace, shuffle, shuffleChildren } from './quiz';
+
+const node = (id: string, level: number, children: TreeNode[] = []): TreeNode => ({ id, text: id, children, isLeaf: children.length === 0, level });
+
+const tree = node('root', 0, [
+  node('a', 1, [node('a1', 2), node('a2', 2), node('a3', 2), node('a4', 2)]),
+  node('b', 1, [node('b1', 2), node('b2', 2)]),
+  node('c', 1, [node('c1', 2, [node('c1x', 3)])])
+]);
+
+const [a, b, c] = tree.children;
+
+// A fixed sequence instead of Math.random, repeated as needed.
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+describe('shuffle', () => {
+  it('keeps every item and leaves the input alone', () => {
+    const items = [1, 2, 3, 4, 5];
+    const shuffled = shuffle(items, sequence(0.3, 0.9, 0.1));
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('reshuffles children until they are out of order', () => {
+    // 0.99 swaps every item with itself, so the first shuffle changes nothing.
+    const order = shuffleChildren(b, sequence(0.99, 0));
+    expect(order.map(n => n.id)).toEqual(['b2', 'b1']);
+    // A single child cannot be put out of order; the retries give up.
+    expect(shuffleChildren(c, sequence(0)).map(n => n.id)).toEqual(['c1']);
+  });
+});
+
+describe('multiple choice', () => {
+  const item = (n: TreeNode, path: TreeNode[]) => ({ node: n, path });
+
+  it('offers the answer with distinct sibling distractors first', () => {
+    const choices = buildChoices(item(a.children[0], [tree, a]), tree);
+    expect(choices).toHaveLength(4);
+    expect([...choices].sort()).toEqual(['a1', 'a2', 'a3', 'a4']);
+  });
+
+  it('falls back to cousins, then to any node on the same level', () => {
+    const cousins = buildChoices(item(b.children[0], [tree, b]), tree);
+    expect(cousins).toContain('b1');
+    expect(cousins).toContain('b2');
+    expect(cousins).toHaveLength(4);
+    expect(cousins.every(t => /^[abc]\d$/.test(t))).toBe(true);
+
+    // Level 3 has a single node, so there is nothing to choose from.
+    expect(buildChoices(item(c.children[0].children[0], [tree, c, c.children[0]]), tree)).toEqual(['c1x']);
+  });
+
+  it('does not offer the same text twice', () => {
+    const twins = node('root', 0, [node('x', 1, [{ ...node('p', 2), text: 'Same' }, { ...node('q', 2), text: 'same' }, node('r', 2)])]);
+    const choices = buildChoices(item(twins.children[0].children[2], [twins, twins.children[0]]), twins);
+    expect(choices.map(t => t.toLowerCase()).sort()).toEqual(['r', 'same']);
+  });
+});
+
+describe('quiz items', () => {
+  const isLeaf = (n: TreeNode) => n.isLeaf;
+
+  it('collects open required nodes with their path', () => {
+    const states = { a1: patchNodeState(undefined, { isSolved: true }) };
+    const items = collectQuizItems(tree, states, isLeaf);
+    expect(items.map(i => i.node.id)).toEqual(['a2', 'a3', 'a4', 'b1', 'b2', 'c1x']);
+    expect(items[0].path.map(n => n.id)).toEqual(['root', 'a']);
+  });
+
+  it('asks for the order of parents with two or more children and an open one', () => {
+    const states = { b1: patchNodeState(undefined, { isSolved: true }), b2: patchNodeState(undefined, { isSolved: true }) };
+    expect(collectOrderingItems(tree, states, isLeaf).map(i => i.parent.id)).toEqual(['a']);
+  });
+});
+
+describe('ordering grading', () => {
+  it('accepts only the outline order', () => {
+    expect(isInOrder(a.children, a)).toBe(true);
+    const swapped = [a.children[1], a.children[0], ...a.children.slice(2)];
+    expect(isInOrder(swapped, a)).toBe(false);
+    expect(isInOrder(a.children.slice(0, 3), a)).toBe(false);
+  });
+
+  it('marks only the misplaced children', () => {
+    const swapped = [a.children[1], a.children[0], ...a.children.slice(2)];
+    expect(swapped.map((_, i) => isInPlace(swapped, a, i))).toEqual([false, false, true, true]);
+    // Copies of the nodes count as the same child.
+    expect(isInOrder(a.children.map(n => ({ ...n })), a)).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { NodeState, TreeNode } from '../types';
+import { primaryAnswer } from './answers';
+import { RecallOutcome, isDue, scheduleReview } from './scheduler';
+
+// --- QUIZ MODES ---
+
+export interface QuizItem {
+  node: TreeNode;
+  // Ancestors from the root down to the direct parent.
+  path: TreeNode[];
+}
+
+export interface OrderingItem {
+  parent: TreeNode;
+  path: TreeNode[];
+}
+
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Shuffles a parent's children until they differ from the source order.
+export const shuffleChildren = (parent: TreeNode, random: () => number = Math.random): TreeNode[] => {
+  let order = shuffle(parent.children, random);
+  for (let i = 0; i < 5 && isInOrder(order, parent); i++) order = shuffle(parent.children, random);
+  return order;
+};
+
+// Ordering mode: whether the child arranged at `index` belongs there.
+export const isInPlace = (order: TreeNode[], parent: TreeNode, index: number): boolean =>
+  order[index]?.id === parent.children[index]?.id;
+
+export const isInOrder = (order: TreeNode[], parent: TreeNode): boolean =>
+  order.length === parent.children.length && order.every((_, i) => isInPlace(order, parent, i));
+
+const isOpen = (state: NodeState | undefined) => !state?.isSolved && isDue(state);
+
+// Required nodes that are unsolved and due, in reading order.
+export const collectQuizItems = (
+  root: TreeNode,
+  nodeStates: Record<string, NodeState>,
+  isRequired: (n: TreeNode) => boolean
+): QuizItem[] => {
+  const items: QuizItem[] = [];
+  const walk = (node: TreeNode, path: TreeNode[]) => {
+    if (isRequired(node) && isOpen(nodeStates[node.id])) items.push({ node, path });
+    node.children.forEach(c => walk(c, [...path, node]));
+  };
+  walk(root, []);
+  return items;
+};
+
+// Parents with at least two children, one of which still needs recalling.
+export const collectOrderingItems = (
+  root: TreeNode,
+  nodeStates: Record<string, NodeState>,
+  isRequired: (n: TreeNode) => boolean
+): OrderingItem[] => {
+  const items: OrderingItem[] = [];
+  const walk = (node: TreeNode, path: TreeNode[]) => {
+    if (node.children.length >= 2 && node.children.some(c => isRequired(c) && isOpen(nodeStates[c.id]))) {
+      items.push({ parent: node, path });
+    }
+    node.children.forEach(c => walk(c, [...path, node]));
+  };
+  walk(root, []);
+  return items;
+};
+
+/**
+ * Options for a multiple-choice question: the answer plus distractors taken
+ * from siblings first, then cousins, then any node on the same level.
+ */
+export const buildChoices = (item: QuizItem, root: TreeNode, count = 4): string[] => {
+  const answer = primaryAnswer(item.node.text);
+  const parent = item.path[item.path.length - 1];
+  const grandparent = item.path[item.path.length - 2];
+
+  const siblings = parent ? parent.children : [];
+  const cousins = grandparent ? grandparent.children.filter(p => p !== parent).flatMap(p => p.children) : [];
+  const sameLevel: TreeNode[] = [];
+  const walk = (n: TreeNode) => {
+    if (n.level === item.node.level) sameLevel.push(n);
+    else if (n.level < item.node.level) n.children.forEach(walk);
+  };
+  walk(root);
+
+  const distractors: string[] = [];
+  const seen = new Set([answer.toLowerCase()]);
+  [shuffle(siblings), shuffle(cousins), shuffle(sameLevel)].forEach(pool => {
+    pool.forEach(n => {
+      const text = primaryAnswer(n.text);
+      if (distractors.length >= count - 1 || seen.has(text.toLowerCase())) return;
+      seen.add(text.toLowerCase());
+      distractors.push(text);
+    });
+  });
+  return shuffle([answer, ...distractors]);
+};
+
+export const solvedUpdate = (state: NodeState | undefined, outcome: RecallOutcome): Partial<NodeState> => ({
+  isSolved: true,
+  solvedWith: 'exact',
+  schedule: scheduleReview(state?.schedule, outcome)
+});
+
+export const formatPath = (path: TreeNode[]): string => path.map(n => primaryAnswer(n.text)).join(' › ');
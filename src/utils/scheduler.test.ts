@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { NodeState, TreeNode } from '../types';
+import { countDueNodes, gradeRecall, isDue, reopenDueNodes, scheduleReview } from './scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 0, 10, 15, 30).getTime();
+const START_OF_TODAY = new Date(2024, 0, 10).getTime();
+
+const state = (patch: Partial<NodeState> = {}): NodeState => ({ isSolved: false, isStarred: false, isCollapsed: false, hintCount: 0, ...patch });
+
+const node = (id: string, children: TreeNode[] = []): TreeNode => ({ id, text: id, children, isLeaf: children.length === 0, level: 0 });
+
+describe('gradeRecall', () => {
+  it('grades by hints, misses and close answers', () => {
+    expect(gradeRecall(0, 0)).toBe('perfect');
+    expect(gradeRecall(0, 0, true)).toBe('hinted');
+    expect(gradeRecall(1, 0)).toBe('hinted');
+    expect(gradeRecall(0, 1)).toBe('hinted');
+    expect(gradeRecall(3, 0)).toBe('struggled');
+    expect(gradeRecall(0, 2)).toBe('struggled');
+  });
+});
+
+describe('scheduleReview', () => {
+  it('follows the SM-2 intervals of 1, 6 and then interval × ease days', () => {
+    const first = scheduleReview(undefined, 'perfect', NOW);
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, lastReviewedAt: NOW });
+    expect(first.dueAt).toBe(START_OF_TODAY + DAY_MS);
+    const second = scheduleReview(first, 'perfect', NOW);
+    expect(second.interval).toBe(6);
+    const third = scheduleReview(second, 'perfect', NOW);
+    expect(third.interval).toBe(Math.round(6 * third.easeFactor));
+  });
+
+  it('starts over after a lapse and never drops the ease below 1.3', () => {
+    let schedule = scheduleReview(undefined, 'perfect', NOW);
+    for (let i = 0; i < 10; i++) schedule = scheduleReview(schedule, 'struggled', NOW);
+    expect(schedule).toMatchObject({ interval: 1, repetitions: 0, easeFactor: 1.3 });
+  });
+});
+
+describe('due nodes', () => {
+  const due = state({ isSolved: true, hintCount: 2, solvedWith: 'close', schedule: { easeFactor: 2.5, interval: 1, repetitions: 1, dueAt: NOW - 1, lastReviewedAt: NOW - DAY_MS } });
+  const later = state({ isSolved: true, schedule: { easeFactor: 2.5, interval: 6, repetitions: 2, dueAt: NOW + DAY_MS, lastReviewedAt: NOW } });
+
+  it('treats unscheduled nodes as due', () => {
+    expect(isDue(undefined, NOW)).toBe(true);
+    expect(isDue(due, NOW)).toBe(true);
+    expect(isDue(later, NOW)).toBe(false);
+  });
+
+  it('counts only scheduled, required nodes that are due', () => {
+    const tree = node('root', [node('a'), node('b'), node('c')]);
+    const states = { a: due, b: later, c: state() };
+    expect(countDueNodes(tree, states, () => true, NOW)).toBe(1);
+    expect(countDueNodes(tree, states, n => n.id !== 'a', NOW)).toBe(0);
+  });
+
+  it('reopens due nodes and leaves the rest untouched', () => {
+    const reopened = reopenDueNodes({ a: due, b: later }, NOW);
+    expect(reopened.a).toMatchObject({ isSolved: false, hintCount: 0, solvedWith: undefined, schedule: due.schedule });
+    expect(reopened.b).toBe(later);
+  });
+});
@@ -0,0 +1,92 @@
+import { NodeState, ReviewSchedule, TreeNode } from '../types';
+import { patchNodeState } from './nodeStateStore';
+
+// --- SPACED REPETITION (SM-2) ---
+
+export type RecallOutcome = 'perfect' | 'hinted' | 'struggled';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+
+const QUALITY: Record<RecallOutcome, number> = {
+  perfect: 5,
+  hinted: 3,
+  struggled: 1
+};
+
+const startOfDay = (time: number): number => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// A full reveal (third hint) or two or more misses count as a lapse.
+export const gradeRecall = (hintCount: number, missCount: number, isClose = false): RecallOutcome => {
+  if (hintCount >= 3 || missCount >= 2) return 'struggled';
+  if (hintCount > 0 || missCount > 0 || isClose) return 'hinted';
+  return 'perfect';
+};
+
+export const scheduleReview = (
+  prev: ReviewSchedule | undefined,
+  outcome: RecallOutcome,
+  now: number = Date.now()
+): ReviewSchedule => {
+  const q = QUALITY[outcome];
+  const easeFactor = Math.max(
+    MIN_EASE,
+    (prev?.easeFactor ?? DEFAULT_EASE) + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  );
+
+  let repetitions = prev?.repetitions ?? 0;
+  let interval: number;
+  if (q < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round((prev?.interval ?? 1) * easeFactor);
+  }
+
+  return {
+    easeFactor,
+    interval,
+    repetitions,
+    dueAt: startOfDay(now) + interval * DAY_MS,
+    lastReviewedAt: now
+  };
+};
+
+// Nodes without a schedule have never been reviewed and are always due.
+export const isDue = (state: NodeState | undefined, now: number = Date.now()): boolean =>
+  !state?.schedule || state.schedule.dueAt <= now;
+
+// Count scheduled nodes whose review date has come.
+export const countDueNodes = (
+  node: TreeNode,
+  nodeStates: Record<string, NodeState>,
+  isRequired: (n: TreeNode) => boolean,
+  now: number = Date.now()
+): number => {
+  const state = nodeStates[node.id];
+  let count = isRequired(node) && state?.schedule && isDue(state, now) ? 1 : 0;
+  node.children.forEach(c => count += countDueNodes(c, nodeStates, isRequired, now));
+  return count;
+};
+
+// Put solved nodes whose review date has come back into the recall pool.
+export const reopenDueNodes = (
+  nodeStates: Record<string, NodeState>,
+  now: number = Date.now()
+): Record<string, NodeState> => {
+  const next: Record<string, NodeState> = {};
+  Object.entries(nodeStates).forEach(([id, state]) => {
+    next[id] = state.isSolved && state.schedule && isDue(state, now)
+      ? patchNodeState(state, { isSolved: false, hintCount: 0, solvedWith: undefined, solvedBlanks: undefined }, now)
+      : state;
+  });
+  return next;
+};
@@ -0,0 +1,38 @@
+import { TreeNode } from '../types';
+import { normalizeAnswer } from './answers';
+import { stripCloze } from './cloze';
+
+// --- SEARCH ---
+
+export const MAX_SEARCH_RESULTS = 20;
+
+export interface SearchResult {
+  node: TreeNode;
+  // Texts of the ancestors, root first.
+  path: string[];
+}
+
+/**
+ * Nodes whose text contains `query`, ignoring case, spacing and punctuation.
+ * `isSearchable` keeps hidden answers out of the results; their descendants are still searched.
+ */
+export const searchTree = (
+  root: TreeNode,
+  query: string,
+  isSearchable: (n: TreeNode) => boolean,
+  limit: number = MAX_SEARCH_RESULTS
+): SearchResult[] => {
+  const needle = normalizeAnswer(query);
+  const results: SearchResult[] = [];
+  if (!needle) return results;
+  const walk = (node: TreeNode, path: string[]) => {
+    if (results.length >= limit) return;
+    const text = stripCloze(node.text);
+    if (isSearchable(node) && normalizeAnswer(text).includes(needle)) results.push({ node, path });
+    // Hidden ancestors show up as a placeholder in the path.
+    const childPath = [...path, isSearchable(node) ? text : '…'];
+    node.children.forEach(c => walk(c, childPath));
+  };
+  walk(root, []);
+  return results;
+};
@@ -0,0 +1,31 @@
+// --- TEXT SIMILARITY ---
+
+// Levenshtein distance over code points.
+export const editDistance = (a: string, b: string): number => {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  if (s.length === 0) return t.length;
+  if (t.length === 0) return s.length;
+
+  let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[t.length];
+};
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// 1 for identical texts (ignoring case and spacing), 0 for nothing in common.
+export const textSimilarity = (a: string, b: string): number => {
+  const x = normalize(a);
+  const y = normalize(b);
+  const longest = Math.max(Array.from(x).length, Array.from(y).length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(x, y) / longest;
+};
@@ -0,0 +1,105 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { Attempt, DifficultyLevel, Session } from '../types';
+import { patchNodeState, sameNodeStates } from './nodeStateStore';
+import { deleteSessions, hasTreeConflict, loadSessions, mergeNodeStates, mergeSessions, putSessions } from './storage';
+
+const session = (id: string, lastUpdated: number): Session => ({
+  id,
+  fileName: `${id}.md`,
+  data: { id: 'root', text: id, children: [], isLeaf: true, level: 0 },
+  difficulty: DifficultyLevel.BASIC,
+  nodeStates: {},
+  lastUpdated,
+  progress: 0
+});
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null });
+});
+
+describe('session storage', () => {
+  it('never removes sessions that a save leaves out', async () => {
+    await putSessions([session('a', 1), session('b', 2)]);
+    // E.g. a save made before the library finished loading.
+    await putSessions([session('c', 3)]);
+    expect((await loadSessions()).map(s => s.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('removes only the sessions deleted by id', async () => {
+    await deleteSessions(['b']);
+    expect((await loadSessions()).map(s => s.id)).toEqual(['c', 'a']);
+  });
+});
+
+describe('mergeNodeStates', () => {
+  const solved = patchNodeState(undefined, { isSolved: true, solvedWith: 'exact', hintCount: 1 }, 100);
+
+  it('keeps a star toggled here after the other tab last saved', () => {
+    const local = { a: patchNodeState(solved, { isStarred: true }, 300) };
+    const remote = { a: patchNodeState(solved, { hintCount: 2 }, 200) };
+    expect(mergeNodeStates(local, remote).a).toMatchObject({ isStarred: true, hintCount: 2, isSolved: true });
+  });
+
+  it('does not bring back progress that was reset later', () => {
+    const local = { a: patchNodeState(solved, { isSolved: false, solvedWith: undefined, hintCount: 0 }, 300) };
+    const remote = { a: solved };
+    expect(mergeNodeStates(local, remote).a).toMatchObject({ isSolved: false, hintCount: 0 });
+  });
+
+  it('takes newer remote fields but keeps collapse state local', () => {
+    const local = { a: patchNodeState(solved, { isCollapsed: true }, 150) };
+    const remote = { a: patchNodeState(solved, { isStarred: true, isCollapsed: false }, 200), b: solved };
+    const merged = mergeNodeStates(local, remote);
+    expect(merged.a).toMatchObject({ isStarred: true, isCollapsed: true });
+    expect(merged.b).toBe(solved);
+  });
+
+  it('settles: merging the result again changes nothing, whatever the key order', () => {
+    const local = { a: solved, b: patchNodeState(undefined, { isStarred: true }, 50) };
+    const remote = { b: local.b, a: patchNodeState(solved, { hintCount: 3 }, 400) };
+    const merged = mergeNodeStates(local, remote);
+    expect(sameNodeStates(mergeNodeStates(merged, remote), merged)).toBe(true);
+    expect(sameNodeStates({ b: local.b, a: solved }, { a: { ...solved }, b: local.b })).toBe(true);
+    expect(sameNodeStates(local, remote)).toBe(false);
+  });
+});
+
+describe('mergeSessions', () => {
+  const attempt = (nodeId: string, at: number): Attempt => ({ nodeId, at, correct: true, answer: nodeId, hintsUsed: 0, durationMs: 5, mode: 'recall' });
+  const base = session('s', 1);
+
+  it('keeps the attempts two tabs wrote', async () => {
+    const tabA = { ...base, attempts: [attempt('a', 10)] };
+    const tabB = { ...base, attempts: [attempt('b', 5)], exams: [{ id: 'e', startedAt: 1, finishedAt: 6, timeLimitMs: 0, timedOut: false, score: 0, answers: [] }] };
+    await putSessions([tabB]);
+    const stored = (await loadSessions()).find(s => s.id === 's')!;
+    const merged = mergeSessions(tabA, stored, base);
+    expect(merged.attempts?.map(a => a.nodeId)).toEqual(['b', 'a']);
+    expect(merged.exams?.map(e => e.id)).toEqual(['e']);
+
+    // Tab A saves the merged copy; tab B finds nothing new in it but its own history.
+    await putSessions([merged]);
+    const again = (await loadSessions()).find(s => s.id === 's')!;
+    expect(mergeSessions(merged, again, again)).toBe(merged);
+    expect(mergeSessions(tabB, again, stored).attempts?.map(a => a.nodeId)).toEqual(['b', 'a']);
+  });
+
+  it('takes settings changed only in the other tab and keeps the ones changed here', () => {
+    const local = { ...base, title: 'Mine' };
+    const remote = { ...base, tags: ['x'], title: 'Theirs', maskingPolicy: { scope: 'all' as const } };
+    expect(mergeSessions(local, remote, base)).toMatchObject({ title: 'Mine', tags: ['x'], maskingPolicy: { scope: 'all' } });
+  });
+
+  it('keeps this tab\'s outline when both were edited unless told otherwise', () => {
+    const child = { id: 'c', text: 'C', children: [], isLeaf: true, level: 1 };
+    const local = { ...base, data: { ...base.data, children: [child], isLeaf: false } };
+    const remote = { ...base, data: { ...base.data, text: 'Renamed' } };
+    expect(hasTreeConflict(local, remote, base)).toBe(true);
+    expect(mergeSessions(local, remote, base).data).toBe(local.data);
+    expect(mergeSessions(local, remote, base, true).data).toBe(remote.data);
+    // An outline edited only in the other tab is taken without asking.
+    expect(hasTreeConflict(base, remote, base)).toBe(false);
+    expect(mergeSessions(base, remote, base).data).toBe(remote.data);
+  });
+});
@@ -0,0 +1,272 @@
+import { MaskPreset, NodeState, NodeStateField, Session } from '../types';
+import { mergeAttempts } from './analytics';
+import { mergeExams } from './exam';
+import { isEqual, sameNodeStates } from './nodeStateStore';
+import { generateId } from './parser';
+
+// --- PERSISTENCE (IndexedDB) ---
+
+const DB_NAME = 'promindmap';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const META_STORE = 'meta';
+const CHANNEL_NAME = 'promindmap-sync';
+const LEGACY_STORAGE_KEY = 'promindmap_v1_single';
+
+// Version of the session record shape; bump it and add a migration when Session changes.
+export const SCHEMA_VERSION = 2;
+
+type StoredSession = Session & { schemaVersion: number };
+
+type Migration = (record: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] upgrades a record from schema n to n + 1.
+const migrations: Record<number, Migration> = {
+  // v1: sessions serialized together in localStorage, possibly without nodeStates or progress.
+  1: (record) => ({
+    ...record,
+    nodeStates: record.nodeStates ?? {},
+    progress: record.progress ?? 0,
+    lastUpdated: record.lastUpdated ?? Date.now()
+  })
+};
+
+export const migrateSession = (record: Record<string, unknown>): Session => {
+  let current = record;
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1;
+  while (version < SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from session schema v${version}`);
+    current = migrate(current);
+    version++;
+  }
+  const { schemaVersion: _version, ...session } = current;
+  return session as unknown as Session;
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toRecord = (session: Session): StoredSession => ({ ...session, schemaVersion: SCHEMA_VERSION });
+
+// One-time import of the old single-key localStorage data.
+const importLegacySessions = async (db: IDBDatabase) => {
+  const done = await request(db.transaction(META_STORE).objectStore(META_STORE).get('legacyImported'));
+  if (done) return;
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  const tx = db.transaction([SESSION_STORE, META_STORE], 'readwrite');
+  if (saved) {
+    try {
+      const legacy = JSON.parse(saved) as Record<string, unknown>[];
+      legacy.forEach(record => tx.objectStore(SESSION_STORE).put(toRecord(migrateSession({ ...record, schemaVersion: 1 }))));
+    } catch (e) {
+      console.error(e);
+    }
+  }
+  tx.objectStore(META_STORE).put(true, 'legacyImported');
+  await transactionDone(tx);
+};
+
+// --- CROSS-TAB SYNC ---
+
+const tabId = generateId();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export interface StorageChange {
+  type: 'saved' | 'deleted';
+  ids: string[];
+}
+
+const notify = (change: StorageChange) => channel?.postMessage({ ...change, tabId });
+
+export const subscribeToChanges = (listener: (change: StorageChange) => void): (() => void) => {
+  if (!channel) return () => {};
+  const handler = (e: MessageEvent) => {
+    if (e.data?.tabId !== tabId) listener({ type: e.data.type, ids: e.data.ids });
+  };
+  channel.addEventListener('message', handler);
+  return () => channel.removeEventListener('message', handler);
+};
+
+// --- API ---
+
+export const loadSessions = async (): Promise<Session[]> => {
+  const db = await openDb();
+  await importLegacySessions(db);
+  const records = await request(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll());
+  return records
+    .map(r => migrateSession(r as Record<string, unknown>))
+    .sort((a, b) => b.lastUpdated - a.lastUpdated);
+};
+
+export const saveSession = async (session: Session) => {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).put(toRecord(session));
+  await transactionDone(tx);
+  notify({ type: 'saved', ids: [session.id] });
+};
+
+// Writes the given sessions and leaves every other stored session alone.
+export const putSessions = async (sessions: Session[]) => {
+  if (sessions.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  const store = tx.objectStore(SESSION_STORE);
+  sessions.forEach(s => store.put(toRecord(s)));
+  await transactionDone(tx);
+  notify({ type: 'saved', ids: sessions.map(s => s.id) });
+};
+
+// The only way a stored session is removed.
+export const deleteSessions = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  const store = tx.objectStore(SESSION_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+  notify({ type: 'deleted', ids });
+};
+
+export const loadMaskPresets = async (): Promise<MaskPreset[]> => {
+  const db = await openDb();
+  const presets = await request(db.transaction(META_STORE).objectStore(META_STORE).get('maskPresets'));
+  return (presets as MaskPreset[] | undefined) || [];
+};
+
+export const saveMaskPresets = async (presets: MaskPreset[]) => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(presets, 'maskPresets');
+  await transactionDone(tx);
+};
+
+// Keeps the latest copy of each scheduled session; a combined deck schedules all of its sources.
+export const createAutosave = (delay = 800) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const pending = new Map<string, Session>();
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const sessions = [...pending.values()];
+    pending.clear();
+    sessions.forEach(session => saveSession(session).catch(console.error));
+  };
+
+  return {
+    schedule: (session: Session) => {
+      pending.set(session.id, session);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, delay);
+    },
+    flush
+  };
+};
+
+// Collapse state is a per-tab view setting and never taken from another tab.
+const MERGED_FIELDS: NodeStateField[] = ['isSolved', 'solvedWith', 'solvedBlanks', 'hintCount', 'isStarred', 'schedule'];
+
+const copyField = <K extends NodeStateField>(target: NodeState, source: NodeState, field: K) => {
+  target[field] = source[field];
+};
+
+const mergeNodeState = (local: NodeState, remote: NodeState): NodeState => {
+  const updatedAt = { ...local.updatedAt };
+  const merged: NodeState = { ...local, updatedAt };
+  MERGED_FIELDS.forEach(field => {
+    const remoteAt = remote.updatedAt?.[field] ?? 0;
+    if (remoteAt <= (updatedAt[field] ?? 0)) return;
+    copyField(merged, remote, field);
+    updatedAt[field] = remoteAt;
+  });
+  return merged;
+};
+
+/**
+ * Combines progress made on the same session in two tabs: for each field the
+ * later change wins, so a star toggled or a reset made here is kept until
+ * the other tab changes that field again. Collapse state stays local.
+ */
+export const mergeNodeStates = (
+  local: Record<string, NodeState>,
+  remote: Record<string, NodeState>
+): Record<string, NodeState> => {
+  const merged: Record<string, NodeState> = { ...remote, ...local };
+  Object.keys(remote).forEach(id => {
+    if (local[id]) merged[id] = mergeNodeState(local[id], remote[id]);
+  });
+  return merged;
+};
+
+// Settings either tab may change. View settings (list or canvas, study mode) stay per tab.
+const SHARED_FIELDS = ['data', 'title', 'course', 'tags', 'difficulty', 'typoTolerance', 'maskingPolicy', 'maskPresetId'] as const;
+
+const copySessionField = <K extends keyof Session>(target: Session, source: Session, field: K) => {
+  target[field] = source[field];
+};
+
+// Both tabs edited the outline since `base`, the stored copy this tab last synced with.
+export const hasTreeConflict = (local: Session, remote: Session, base: Session): boolean =>
+  !isEqual(local.data, base.data) && !isEqual(remote.data, base.data) && !isEqual(local.data, remote.data);
+
+/**
+ * Folds a copy of the session saved by another tab into this tab's copy, so
+ * saving this one loses nothing from the other. A setting changed only in
+ * the other tab since `base` is taken from it; one changed here is kept, and
+ * an outline edited in both is kept unless takeRemoteTree is set. Node states
+ * merge field by field; attempts and exam results are combined. Returns
+ * `local` itself when the other copy adds nothing.
+ */
+export const mergeSessions = (local: Session, remote: Session, base: Session, takeRemoteTree = false): Session => {
+  const merged: Session = { ...local };
+  let changed = false;
+  SHARED_FIELDS.forEach(field => {
+    if (isEqual(remote[field], local[field]) || isEqual(remote[field], base[field])) return;
+    const keepsLocal = field === 'data' ? !takeRemoteTree && !isEqual(local.data, base.data) : !isEqual(local[field], base[field]);
+    if (keepsLocal) return;
+    copySessionField(merged, remote, field);
+    changed = true;
+  });
+  const nodeStates = mergeNodeStates(local.nodeStates, remote.nodeStates);
+  if (!sameNodeStates(nodeStates, local.nodeStates)) {
+    merged.nodeStates = nodeStates;
+    changed = true;
+  }
+  merged.attempts = mergeAttempts(local.attempts, remote.attempts);
+  merged.exams = mergeExams(local.exams, remote.exams);
+  changed = changed || merged.attempts !== local.attempts || merged.exams !== local.exams;
+  return changed ? { ...merged, lastUpdated: Math.max(local.lastUpdated, remote.lastUpdated) } : local;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Attempt, DifficultyLevel, NodeState, Session, TreeNode } from '../types';
+import { patchNodeState } from './nodeStateStore';
+import { NO_FILTERS, StudyFilters, hintedNodeIds, isOpenNode, updateShownNodes } from './studyFilters';
+import { advanceTreeStats, computeTreeStats } from './treeStats';
+
+const node = (id: string, level: number, children: TreeNode[] = []): TreeNode => ({ id, text: id, children, isLeaf: children.length === 0, level });
+
+const tree = node('root', 0, [
+  node('a', 1, [node('a1', 2), node('a2', 2)]),
+  node('b', 1, [node('b1', 2)])
+]);
+
+const session = (nodeStates: Record<string, NodeState> = {}, attempts?: Attempt[]): Session =>
+  ({ id: 's', fileName: 's.md', data: tree, difficulty: DifficultyLevel.BASIC, nodeStates, attempts, lastUpdated: 1, progress: 0 });
+
+const attempt = (nodeId: string, hintsUsed: number): Attempt =>
+  ({ nodeId, at: 1, correct: true, answer: nodeId, hintsUsed, durationMs: 1, mode: 'recall' });
+
+const shownIds = (s: Session, filters: StudyFilters): string[] | null => {
+  const { isShown } = updateShownNodes(null, s, filters, computeTreeStats(s));
+  const all = (n: TreeNode): TreeNode[] => [n, ...n.children.flatMap(all)];
+  return isShown && all(tree).filter(isShown).map(n => n.id);
+};
+
+const NOW = 1000;
+const solved = patchNodeState(undefined, { isSolved: true });
+const resting = patchNodeState(undefined, { schedule: { easeFactor: 2.5, interval: 1, repetitions: 1, dueAt: NOW + 1, lastReviewedAt: NOW } });
+
+describe('open nodes', () => {
+  it('are masked, unsolved and due', () => {
+    expect(isOpenNode(true, undefined, NOW)).toBe(true);
+    expect(isOpenNode(false, undefined, NOW)).toBe(false);
+    expect(isOpenNode(true, solved, NOW)).toBe(false);
+    expect(isOpenNode(true, resting, NOW)).toBe(false);
+  });
+
+  it('count as hinted by their hint count or a logged attempt', () => {
+    const s = session({ a1: patchNodeState(undefined, { hintCount: 1 }) }, [attempt('b1', 2), attempt('a2', 0)]);
+    expect([...hintedNodeIds(s)].sort()).toEqual(['a1', 'b1']);
+  });
+});
+
+describe('updateShownNodes', () => {
+  it('shows matches with their ancestors, or everything without filters', () => {
+    const s = session({ a1: solved, b1: patchNodeState(undefined, { isStarred: true }) });
+    expect(shownIds(s, NO_FILTERS)).toBeNull();
+    expect(shownIds(s, { starred: true, unsolved: false, hinted: false })).toEqual(['root', 'b', 'b1']);
+    expect(shownIds(s, { starred: false, unsolved: true, hinted: false })).toEqual(['root', 'a', 'a2', 'b', 'b1']);
+    expect(shownIds(s, { starred: true, unsolved: true, hinted: false })).toEqual(['root', 'b', 'b1']);
+  });
+
+  it('adjusts from the changed nodes, keeping the predicate while the shown set stays', () => {
+    const filters: StudyFilters = { starred: false, unsolved: true, hinted: true };
+    let current = session();
+    let stats = computeTreeStats(current);
+    let shown = updateShownNodes(null, current, filters, stats);
+    expect(shownIds(current, filters)).toEqual([]);
+
+    const steps: ((s: Session) => Session)[] = [
+      s => ({ ...s, nodeStates: { ...s.nodeStates, a1: patchNodeState(s.nodeStates.a1, { hintCount: 1 }) } }),
+      s => ({ ...s, attempts: [attempt('b1', 1)] }),
+      s => ({ ...s, nodeStates: { ...s.nodeStates, a1: patchNodeState(s.nodeStates.a1, { isSolved: true }) } }),
+      s => ({ ...s, nodeStates: { ...s.nodeStates, a2: patchNodeState(s.nodeStates.a2, { isStarred: true }) } })
+    ];
+    steps.forEach(step => {
+      const previous = shown;
+      current = step(current);
+      stats = advanceTreeStats(stats, current);
+      shown = updateShownNodes(shown, current, filters, stats);
+      const full = updateShownNodes(null, current, filters, stats);
+      expect(shown.matchCounts).toEqual(full.matchCounts);
+      if (shown.matchCounts === previous.matchCounts) expect(shown.isShown).toBe(previous.isShown);
+    });
+    expect(shownIds(current, filters)).toEqual(['root', 'b', 'b1']);
+  });
+});
@@ -0,0 +1,115 @@
+import { NodeState, Session, TreeNode } from '../types';
+import { changedNodeIds } from './nodeStateStore';
+import { isDue } from './scheduler';
+import { TreeStats } from './treeStats';
+
+// --- STUDY FILTERS ---
+
+export interface StudyFilters {
+  starred: boolean;
+  unsolved: boolean;
+  hinted: boolean;
+}
+
+export const NO_FILTERS: StudyFilters = { starred: false, unsolved: false, hinted: false };
+
+export const hasFilters = (filters: StudyFilters): boolean => filters.starred || filters.unsolved || filters.hinted;
+
+// A node still waiting for an answer: masked, not solved, and not resting until its review date.
+export const isOpenNode = (masked: boolean, state: NodeState | undefined, now: number = Date.now()): boolean =>
+  masked && !state?.isSolved && isDue(state, now);
+
+// Hint counts reset when a node is reopened, so the attempt log is checked as well.
+export const hintedNodeIds = (session: Session): Set<string> => {
+  const ids = new Set<string>();
+  (session.attempts || []).forEach(a => { if (a.hintsUsed > 0) ids.add(a.nodeId); });
+  Object.entries(session.nodeStates).forEach(([id, state]) => { if (state.hintCount > 0) ids.add(id); });
+  return ids;
+};
+
+export interface ShownNodes {
+  session: Session;
+  filters: StudyFilters;
+  stats: TreeStats;
+  // Due dates are judged as of the full walk, so incremental updates stay consistent with it.
+  asOf: number;
+  // Matching nodes in each subtree, including the node itself; branches without any are left out.
+  matchCounts: Record<string, number>;
+  // Kept as long as the shown set is unchanged, so memoised rows need not be rebuilt.
+  isShown: ((n: TreeNode) => boolean) | null;
+}
+
+// Required nodes are exactly those with a blank count, so a node can be judged by id alone.
+const nodeMatcher = (session: Session, filters: StudyFilters, stats: TreeStats, asOf: number, isHinted: (id: string) => boolean) =>
+  (id: string): boolean => {
+    const state = session.nodeStates[id];
+    if (filters.starred && !state?.isStarred) return false;
+    if (filters.unsolved && !isOpenNode(stats.requiredBlanks.has(id), state, asOf)) return false;
+    if (filters.hinted && !isHinted(id)) return false;
+    return true;
+  };
+
+const showCounted = (matchCounts: Record<string, number>) => (n: TreeNode) => !!matchCounts[n.id];
+
+const findShownNodes = (session: Session, filters: StudyFilters, stats: TreeStats): ShownNodes => {
+  const asOf = Date.now();
+  const hinted = filters.hinted ? hintedNodeIds(session) : null;
+  const matches = nodeMatcher(session, filters, stats, asOf, id => !!hinted?.has(id));
+  const matchCounts: Record<string, number> = {};
+  const walk = (node: TreeNode): number => {
+    let count = matches(node.id) ? 1 : 0;
+    node.children.forEach(c => count += walk(c));
+    if (count > 0) matchCounts[node.id] = count;
+    return count;
+  };
+  walk(session.data);
+  return { session, filters, stats, asOf, matchCounts, isShown: showCounted(matchCounts) };
+};
+
+// Past this many changed nodes a full walk is cheaper than adjusting the counts.
+const MAX_INCREMENTAL_CHANGES = 64;
+
+/**
+ * The nodes to show: those passing every active filter, plus their ancestors
+ * so the matches stay in context. `isShown` is null when nothing is filtered.
+ * Counts are adjusted along the changed nodes' paths where `prev` allows it.
+ */
+export const updateShownNodes = (prev: ShownNodes | null, session: Session, filters: StudyFilters, stats: TreeStats): ShownNodes => {
+  if (prev && prev.session === session && prev.filters === filters && prev.stats === stats) return prev;
+  // Starred counts are kept current with the stats, which is enough when starred is the only filter.
+  if (!hasFilters(filters) || (!filters.unsolved && !filters.hinted)) {
+    const matchCounts = hasFilters(filters) ? stats.starredCounts : {};
+    const isShown = !hasFilters(filters) ? null
+      : prev?.filters === filters && prev.matchCounts === matchCounts ? prev.isShown : showCounted(matchCounts);
+    return { session, filters, stats, asOf: prev?.asOf ?? Date.now(), matchCounts, isShown };
+  }
+  if (!prev || prev.filters !== filters || prev.stats.tree !== stats.tree || prev.stats.isRequired !== stats.isRequired) {
+    return findShownNodes(session, filters, stats);
+  }
+
+  const changed = new Set(changedNodeIds(prev.session.nodeStates, session.nodeStates));
+  if (filters.hinted && prev.session.attempts !== session.attempts) {
+    const known = new Set(prev.session.attempts);
+    (session.attempts || []).forEach(a => { if (!known.has(a)) changed.add(a.nodeId); });
+  }
+  if (changed.size > MAX_INCREMENTAL_CHANGES) return findShownNodes(session, filters, stats);
+
+  const hintedIn = (s: Session) => (id: string) =>
+    (s.nodeStates[id]?.hintCount ?? 0) > 0 || (s.attempts || []).some(a => a.nodeId === id && a.hintsUsed > 0);
+  const matchedBefore = nodeMatcher(prev.session, filters, prev.stats, prev.asOf, hintedIn(prev.session));
+  const matchesNow = nodeMatcher(session, filters, stats, prev.asOf, hintedIn(session));
+  let matchCounts = prev.matchCounts;
+  let shownChanged = false;
+  changed.forEach(nodeId => {
+    const delta = Number(matchesNow(nodeId)) - Number(matchedBefore(nodeId));
+    if (delta === 0) return;
+    if (matchCounts === prev.matchCounts) matchCounts = { ...matchCounts };
+    for (let id: string | undefined = nodeId; id !== undefined; id = stats.parentIds.get(id)) {
+      const count = (matchCounts[id] ?? 0) + delta;
+      if ((count > 0) !== (id in matchCounts)) shownChanged = true;
+      if (count > 0) matchCounts[id] = count;
+      else delete matchCounts[id];
+    }
+  });
+  return { ...prev, session, stats, matchCounts, isShown: shownChanged ? showCounted(matchCounts) : prev.isShown };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { NodeState, TreeNode } from '../types';
+import { RawNode, buildTree } from './parser';
+import { diffTrees, remapNodeStates } from './treeDiff';
+
+// "Text" or ["Text", ...children]
+type Outline = string | [string, ...Outline[]];
+
+const toRaw = (outline: Outline): RawNode =>
+  typeof outline === 'string' ? { text: outline, children: [] } : { text: outline[0], children: outline.slice(1).map(o => toRaw(o as Outline)) };
+
+const tree = (outline: Outline): TreeNode => buildTree(toRaw(outline));
+
+const find = (root: TreeNode, text: string): TreeNode =>
+  root.text === text ? root : root.children.map(c => find(c, text)).find(Boolean)!;
+
+const texts = (nodes: TreeNode[]) => nodes.map(n => n.text);
+
+describe('diffTrees', () => {
+  const before = tree(['Biology', ['Cell', 'Membrane', 'Nucleus'], ['Genetics', 'Gene']]);
+
+  it('matches an unchanged tree node for node', () => {
+    const diff = diffTrees(before, tree(['Biology', ['Cell', 'Membrane', 'Nucleus'], ['Genetics', 'Gene']]));
+    expect(Object.keys(diff.idMap)).toHaveLength(6);
+    expect(diff).toMatchObject({ added: [], removed: [], renamed: [], moved: [] });
+  });
+
+  it('finds added, removed, renamed and moved nodes', () => {
+    const after = tree(['Biology', ['Cells', 'Membrane'], ['Genetics', 'Gene', 'Nucleus', 'Allele']]);
+    const diff = diffTrees(before, after);
+    expect(texts(diff.added)).toEqual(['Allele']);
+    expect(texts(diff.removed)).toEqual([]);
+    expect(diff.renamed.map(c => [c.from.text, c.to.text])).toEqual([['Cell', 'Cells']]);
+    expect(diff.moved.map(c => c.to.text)).toEqual(['Nucleus']);
+    expect(diff.idMap[find(after, 'Nucleus').id]).toBe(find(before, 'Nucleus').id);
+  });
+
+  it('drops nodes without a close enough match', () => {
+    const diff = diffTrees(before, tree(['Biology', ['Cell', 'Membrane'], ['Genetics', 'Gene', 'Chromosome']]));
+    expect(texts(diff.added)).toEqual(['Chromosome']);
+    expect(texts(diff.removed)).toEqual(['Nucleus']);
+  });
+});
+
+describe('remapNodeStates', () => {
+  it('carries states over to the matched ids and drops the rest', () => {
+    const solved: NodeState = { isSolved: true, isStarred: false, isCollapsed: false, hintCount: 0 };
+    expect(remapNodeStates({ old1: solved, gone: solved }, { new1: 'old1', new2: 'old2' })).toEqual({ new1: solved });
+  });
+});
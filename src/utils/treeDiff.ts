@@ -0,0 +1,125 @@
+import { NodeState, TreeNode } from '../types';
+import { textSimilarity } from './similarity';
+
+// --- TREE MATCHING ---
+
+export interface NodeChange {
+  from: TreeNode;
+  to: TreeNode;
+}
+
+export interface TreeDiff {
+  // New node id -> old node id for every node that was matched.
+  idMap: Record<string, string>;
+  added: TreeNode[];
+  removed: TreeNode[];
+  renamed: NodeChange[];
+  moved: NodeChange[];
+}
+
+interface Entry {
+  node: TreeNode;
+  parent: TreeNode | null;
+  key: string;
+}
+
+const RENAME_THRESHOLD = 0.6;
+const MOVE_RENAME_THRESHOLD = 0.8;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Breadth-first, so parents are always matched before their children.
+const indexTree = (root: TreeNode): Entry[] => {
+  const entries: Entry[] = [{ node: root, parent: null, key: normalize(root.text) }];
+  for (let i = 0; i < entries.length; i++) {
+    const { node, key } = entries[i];
+    const seen: Record<string, number> = {};
+    node.children.forEach(child => {
+      const text = normalize(child.text);
+      seen[text] = (seen[text] ?? -1) + 1;
+      entries.push({ node: child, parent: node, key: `${key}/${text}#${seen[text]}` });
+    });
+  }
+  return entries;
+};
+
+/**
+ * Matches the nodes of an updated tree against the previous version: first by
+ * identical path, then by identical text anywhere (a move), then by text
+ * similarity (a rename), preferring candidates under the same parent.
+ */
+export const diffTrees = (oldTree: TreeNode, newTree: TreeNode): TreeDiff => {
+  const oldEntries = indexTree(oldTree);
+  const newEntries = indexTree(newTree);
+  const oldParent = new Map(oldEntries.map(e => [e.node.id, e.parent]));
+  const idMap: Record<string, string> = {};
+  const usedOld = new Set<string>();
+  const oldByKey = new Map(oldEntries.map(e => [e.key, e]));
+
+  const match = (newNode: TreeNode, oldNode: TreeNode) => {
+    idMap[newNode.id] = oldNode.id;
+    usedOld.add(oldNode.id);
+  };
+
+  match(newTree, oldTree);
+
+  newEntries.slice(1).forEach(e => {
+    const old = oldByKey.get(e.key);
+    if (old && old.parent && !usedOld.has(old.node.id)) match(e.node, old.node);
+  });
+
+  const parentMatches = (e: Entry, oldNode: TreeNode) =>
+    !!e.parent && oldParent.get(oldNode.id)?.id === idMap[e.parent.id];
+
+  newEntries.slice(1).forEach(e => {
+    if (idMap[e.node.id]) return;
+    const text = normalize(e.node.text);
+    const candidates = oldEntries.filter(o => o.parent && !usedOld.has(o.node.id) && normalize(o.node.text) === text);
+    const best = candidates.find(o => parentMatches(e, o.node)) || candidates[0];
+    if (best) match(e.node, best.node);
+  });
+
+  newEntries.slice(1).forEach(e => {
+    if (idMap[e.node.id]) return;
+    let best: TreeNode | null = null;
+    let bestScore = 0;
+    for (const o of oldEntries) {
+      if (!o.parent || usedOld.has(o.node.id)) continue;
+      const sameParent = parentMatches(e, o.node);
+      const score = textSimilarity(e.node.text, o.node.text);
+      if (score < (sameParent ? RENAME_THRESHOLD : MOVE_RENAME_THRESHOLD)) continue;
+      const weighted = score + (sameParent ? 0.2 : 0);
+      if (weighted > bestScore) {
+        best = o.node;
+        bestScore = weighted;
+      }
+    }
+    if (best) match(e.node, best);
+  });
+
+  const oldById = new Map(oldEntries.map(e => [e.node.id, e.node]));
+  const diff: TreeDiff = { idMap, added: [], removed: [], renamed: [], moved: [] };
+  newEntries.forEach(e => {
+    const oldId = idMap[e.node.id];
+    const from = oldId ? oldById.get(oldId) : undefined;
+    if (!from) {
+      diff.added.push(e.node);
+      return;
+    }
+    if (normalize(from.text) !== normalize(e.node.text)) diff.renamed.push({ from, to: e.node });
+    if (e.parent && !parentMatches(e, from)) diff.moved.push({ from, to: e.node });
+  });
+  diff.removed = oldEntries.filter(e => !usedOld.has(e.node.id)).map(e => e.node);
+  return diff;
+};
+
+export const remapNodeStates = (
+  nodeStates: Record<string, NodeState>,
+  idMap: Record<string, string>
+): Record<string, NodeState> => {
+  const next: Record<string, NodeState> = {};
+  Object.entries(idMap).forEach(([newId, oldId]) => {
+    if (nodeStates[oldId]) next[newId] = nodeStates[oldId];
+  });
+  return next;
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { TreeNode } from '../types';
+import { patchNodeState } from './nodeStateStore';
+import {
+  EMPTY_HISTORY, MAX_HISTORY, addChild, addSibling, findPath, indentNode, moveNode, normalizeTree, outdentNode,
+  pruneNodeStates, recordEdit, redoEdit, removeNode, renameNode, reorderNode, resetRecall, setNodeNote, undoEdit
+} from './treeEdit';
+
+const node = (id: string, level: number, children: TreeNode[] = []): TreeNode => ({ id, text: id, children, isLeaf: children.length === 0, level });
+
+const tree = node('root', 0, [
+  node('a', 1, [node('a1', 2), node('a2', 2)]),
+  node('b', 1)
+]);
+
+// The outline as nested ids, e.g. ['root', [['a', [...]], 'b']].
+const shape = (n: TreeNode): unknown => (n.children.length ? [n.id, n.children.map(shape)] : n.id);
+
+describe('tree edits', () => {
+  it('recomputes level and isLeaf', () => {
+    const stale = { ...node('root', 3, [{ ...node('x', 0), isLeaf: false }]), isLeaf: true };
+    const normalized = normalizeTree(stale);
+    expect(normalized).toMatchObject({ level: 0, isLeaf: false });
+    expect(normalized.children[0]).toMatchObject({ level: 1, isLeaf: true });
+  });
+
+  it('leaves the original tree untouched', () => {
+    const snapshot = JSON.stringify(tree);
+    const renamed = renameNode(tree, 'a1', 'Renamed');
+    expect(renamed.children[0].children[0].text).toBe('Renamed');
+    // Unrelated branches are copied, not mutated.
+    expect(renamed.children[1]).not.toBe(tree.children[1]);
+    expect(JSON.stringify(tree)).toBe(snapshot);
+  });
+
+  it('adds children and siblings in place', () => {
+    const child = addChild(tree, 'b', 'New');
+    expect(shape(child.tree)).toEqual(['root', [['a', ['a1', 'a2']], ['b', [child.id]]]]);
+    expect(child.tree.children[1]).toMatchObject({ isLeaf: false });
+
+    const sibling = addSibling(tree, 'a1');
+    expect(shape(sibling.tree)).toEqual(['root', [['a', ['a1', sibling.id, 'a2']], 'b']]);
+    // The root has no siblings, so it gets a child.
+    expect(shape(addSibling(tree, 'root').tree)).toEqual(['root', [['a', ['a1', 'a2']], 'b', expect.any(String)]]);
+  });
+
+  it('sets and clears notes', () => {
+    const noted = setNodeNote(tree, 'a', '  Remember this  ');
+    expect(noted.children[0].note).toBe('Remember this');
+    expect('note' in setNodeNote(noted, 'a', ' ').children[0]).toBe(false);
+  });
+
+  it('removes a node and reports every id in its subtree', () => {
+    const { tree: next, removedIds } = removeNode(tree, 'a');
+    expect(shape(next)).toEqual(['root', ['b']]);
+    expect(removedIds).toEqual(['a', 'a1', 'a2']);
+    expect(removeNode(tree, 'root')).toEqual({ tree, removedIds: [] });
+  });
+
+  it('moves nodes and refuses moves into their own subtree', () => {
+    const moved = moveNode(tree, 'a2', 'b', 0)!;
+    expect(shape(moved)).toEqual(['root', [['a', ['a1']], ['b', ['a2']]]]);
+    expect(findPath(moved, 'a2')?.map(n => n.id)).toEqual(['root', 'b', 'a2']);
+    expect(moved.children[1].children[0].level).toBe(2);
+    // Later in the same parent: the index counts the node's old place.
+    expect(shape(moveNode(tree, 'a1', 'a', 2)!)).toEqual(['root', [['a', ['a2', 'a1']], 'b']]);
+    expect(moveNode(tree, 'a', 'a1', 0)).toBeNull();
+    expect(moveNode(tree, 'root', 'b', 0)).toBeNull();
+  });
+
+  it('reorders, indents and outdents', () => {
+    expect(shape(reorderNode(tree, 'a1', 1)!)).toEqual(['root', [['a', ['a2', 'a1']], 'b']]);
+    expect(shape(reorderNode(tree, 'a2', -1)!)).toEqual(['root', [['a', ['a2', 'a1']], 'b']]);
+    expect(reorderNode(tree, 'a1', -1)).toBeNull();
+
+    expect(shape(indentNode(tree, 'b')!)).toEqual(['root', [['a', ['a1', 'a2', 'b']]]]);
+    expect(indentNode(tree, 'a')).toBeNull();
+
+    expect(shape(outdentNode(tree, 'a1')!)).toEqual(['root', [['a', ['a2']], 'a1', 'b']]);
+    expect(outdentNode(tree, 'a')).toBeNull();
+  });
+});
+
+describe('node states after edits', () => {
+  const solved = patchNodeState(undefined, { isSolved: true, solvedWith: 'exact', hintCount: 2, isStarred: true, isCollapsed: true }, 100);
+
+  it('resets recall on rename but keeps star and collapse', () => {
+    const states = resetRecall({ a: solved, b: solved }, 'a');
+    expect(states.a).toMatchObject({ isSolved: false, solvedWith: undefined, hintCount: 0, isStarred: true, isCollapsed: true });
+    expect(states.b).toBe(solved);
+    const empty = {};
+    expect(resetRecall(empty, 'a')).toBe(empty);
+  });
+
+  it('prunes the states of deleted nodes', () => {
+    const states = { a: solved, a1: solved, b: solved };
+    const { removedIds } = removeNode(tree, 'a');
+    expect(Object.keys(pruneNodeStates(states, removedIds))).toEqual(['b']);
+    expect(Object.keys(states)).toEqual(['a', 'a1', 'b']);
+  });
+});
+
+describe('edit history', () => {
+  const snapshot = (t: TreeNode) => ({ tree: t, nodeStates: {} });
+  const first = snapshot(tree);
+  const second = snapshot(renameNode(tree, 'a', 'A'));
+  const third = snapshot(renameNode(tree, 'a', 'AA'));
+
+  it('undoes and redoes in order', () => {
+    const history = recordEdit(recordEdit(EMPTY_HISTORY, first), second);
+    const undone = undoEdit(history, third)!;
+    expect(undone.snapshot).toBe(second);
+    const undoneTwice = undoEdit(undone.history, second)!;
+    expect(undoneTwice.snapshot).toBe(first);
+    expect(undoEdit(undoneTwice.history, first)).toBeNull();
+
+    const redone = redoEdit(undoneTwice.history, first)!;
+    expect(redone.snapshot).toBe(second);
+    expect(redoEdit(redone.history, second)!.snapshot).toBe(third);
+  });
+
+  it('drops the redo stack on a new edit and caps the history', () => {
+    const undone = undoEdit(recordEdit(EMPTY_HISTORY, first), second)!;
+    expect(recordEdit(undone.history, first).future).toEqual([]);
+
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < MAX_HISTORY + 5; i++) history = recordEdit(history, i % 2 ? first : second);
+    expect(history.past).toHaveLength(MAX_HISTORY);
+  });
+});
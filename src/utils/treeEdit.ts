@@ -0,0 +1,180 @@
+import { NodeState, TreeNode } from '../types';
+import { patchNodeState } from './nodeStateStore';
+import { generateId } from './parser';
+
+// --- TREE EDITING ---
+// All operations are immutable and return a tree with `level` and `isLeaf` recomputed.
+
+export const normalizeTree = (node: TreeNode, level = 0): TreeNode => {
+  const children = node.children.map(c => normalizeTree(c, level + 1));
+  return { ...node, level, children, isLeaf: children.length === 0 };
+};
+
+export const createNode = (text: string): TreeNode => ({ id: generateId(), text, children: [], isLeaf: true, level: 0 });
+
+export const findNode = (root: TreeNode, id: string): TreeNode | null => {
+  if (root.id === id) return root;
+  for (const child of root.children) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+// The nodes from the root down to `id`, both included.
+export const findPath = (root: TreeNode, id: string): TreeNode[] | null => {
+  if (root.id === id) return [root];
+  for (const child of root.children) {
+    const path = findPath(child, id);
+    if (path) return [root, ...path];
+  }
+  return null;
+};
+
+export const findParent = (root: TreeNode, id: string): TreeNode | null => {
+  for (const child of root.children) {
+    if (child.id === id) return root;
+    const found = findParent(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const collectIds = (node: TreeNode, ids: string[] = []): string[] => {
+  ids.push(node.id);
+  node.children.forEach(c => collectIds(c, ids));
+  return ids;
+};
+
+const mapNode = (node: TreeNode, id: string, fn: (n: TreeNode) => TreeNode): TreeNode =>
+  node.id === id ? fn(node) : { ...node, children: node.children.map(c => mapNode(c, id, fn)) };
+
+const edit = (root: TreeNode, id: string, fn: (n: TreeNode) => TreeNode): TreeNode => normalizeTree(mapNode(root, id, fn));
+
+export const addChild = (root: TreeNode, parentId: string, text = ''): { tree: TreeNode; id: string } => {
+  const node = createNode(text);
+  return { tree: edit(root, parentId, p => ({ ...p, children: [...p.children, node] })), id: node.id };
+};
+
+// Inserts right after the node; the root has no siblings, so it gets a child instead.
+export const addSibling = (root: TreeNode, id: string, text = ''): { tree: TreeNode; id: string } => {
+  const parent = findParent(root, id);
+  if (!parent) return addChild(root, id, text);
+  const node = createNode(text);
+  const index = parent.children.findIndex(c => c.id === id);
+  const tree = edit(root, parent.id, p => ({ ...p, children: [...p.children.slice(0, index + 1), node, ...p.children.slice(index + 1)] }));
+  return { tree, id: node.id };
+};
+
+export const renameNode = (root: TreeNode, id: string, text: string): TreeNode => edit(root, id, n => ({ ...n, text }));
+
+export const setNodeNote = (root: TreeNode, id: string, note: string): TreeNode =>
+  edit(root, id, n => {
+    const { note: _previous, ...rest } = n;
+    return note.trim() ? { ...rest, note: note.trim() } : rest;
+  });
+
+export const removeNode = (root: TreeNode, id: string): { tree: TreeNode; removedIds: string[] } => {
+  const parent = findParent(root, id);
+  const node = findNode(root, id);
+  if (!parent || !node) return { tree: root, removedIds: [] };
+  return {
+    tree: edit(root, parent.id, p => ({ ...p, children: p.children.filter(c => c.id !== id) })),
+    removedIds: collectIds(node)
+  };
+};
+
+/**
+ * Moves a node under a new parent at the given index. Returns null when the
+ * move is impossible: moving the root or moving a node into its own subtree.
+ */
+export const moveNode = (root: TreeNode, id: string, parentId: string, index: number): TreeNode | null => {
+  const node = findNode(root, id);
+  const oldParent = findParent(root, id);
+  if (!node || !oldParent || findNode(node, parentId)) return null;
+  const detached = mapNode(root, oldParent.id, p => ({ ...p, children: p.children.filter(c => c.id !== id) }));
+  // Removing the node shifts later siblings in the same parent one place up.
+  const oldIndex = oldParent.children.findIndex(c => c.id === id);
+  const target = oldParent.id === parentId && oldIndex < index ? index - 1 : index;
+  return normalizeTree(mapNode(detached, parentId, p => {
+    const children = [...p.children];
+    children.splice(Math.max(0, Math.min(target, children.length)), 0, node);
+    return { ...p, children };
+  }));
+};
+
+export const reorderNode = (root: TreeNode, id: string, delta: number): TreeNode | null => {
+  const parent = findParent(root, id);
+  if (!parent) return null;
+  const index = parent.children.findIndex(c => c.id === id);
+  const target = index + delta;
+  if (target < 0 || target >= parent.children.length) return null;
+  return moveNode(root, id, parent.id, delta > 0 ? target + 1 : target);
+};
+
+// Makes the node the last child of its previous sibling.
+export const indentNode = (root: TreeNode, id: string): TreeNode | null => {
+  const parent = findParent(root, id);
+  if (!parent) return null;
+  const index = parent.children.findIndex(c => c.id === id);
+  if (index <= 0) return null;
+  const previous = parent.children[index - 1];
+  return moveNode(root, id, previous.id, previous.children.length);
+};
+
+// Moves the node out of its parent, right after it.
+export const outdentNode = (root: TreeNode, id: string): TreeNode | null => {
+  const parent = findParent(root, id);
+  const grandparent = parent && findParent(root, parent.id);
+  if (!parent || !grandparent) return null;
+  const index = grandparent.children.findIndex(c => c.id === parent.id);
+  return moveNode(root, id, grandparent.id, index + 1);
+};
+
+export const pruneNodeStates = (nodeStates: Record<string, NodeState>, removedIds: string[]): Record<string, NodeState> => {
+  const next = { ...nodeStates };
+  removedIds.forEach(id => delete next[id]);
+  return next;
+};
+
+// A renamed node has a new answer, so its recall progress starts over; star and collapse stay.
+export const resetRecall = (nodeStates: Record<string, NodeState>, id: string): Record<string, NodeState> => {
+  const state = nodeStates[id];
+  if (!state) return nodeStates;
+  return { ...nodeStates, [id]: patchNodeState(state, { isSolved: false, solvedWith: undefined, solvedBlanks: undefined, hintCount: 0, schedule: undefined }) };
+};
+
+// --- EDIT HISTORY ---
+
+export const MAX_HISTORY = 100;
+
+export interface EditSnapshot {
+  tree: TreeNode;
+  nodeStates: Record<string, NodeState>;
+}
+
+export interface EditHistory {
+  past: EditSnapshot[];
+  future: EditSnapshot[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+// Records the snapshot an edit replaces; a new edit drops whatever could be redone.
+export const recordEdit = (history: EditHistory, current: EditSnapshot): EditHistory => ({
+  past: [...history.past, current].slice(-MAX_HISTORY),
+  future: []
+});
+
+// Null when there is nothing to undo or redo.
+export const undoEdit = (history: EditHistory, current: EditSnapshot): { history: EditHistory; snapshot: EditSnapshot } | null => {
+  const snapshot = history.past[history.past.length - 1];
+  if (!snapshot) return null;
+  return { history: { past: history.past.slice(0, -1), future: [current, ...history.future] }, snapshot };
+};
+
+export const redoEdit = (history: EditHistory, current: EditSnapshot): { history: EditHistory; snapshot: EditSnapshot } | null => {
+  const snapshot = history.future[0];
+  if (!snapshot) return null;
+  return { history: { past: [...history.past, current], future: history.future.slice(1) }, snapshot };
+};
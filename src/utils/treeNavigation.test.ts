@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { NodeState, TreeNode } from '../types';
+import { patchNodeState } from './nodeStateStore';
+import { VisibleRow, advanceVisibleRows, flattenVisibleTree, tabTargetRow, treeKeyMove } from './treeNavigation';
+
+const node = (id: string, level: number, children: TreeNode[] = []): TreeNode => ({ id, text: id, children, isLeaf: children.length === 0, level });
+
+const tree = node('root', 0, [
+  node('a', 1, [node('a1', 2), node('a2', 2)]),
+  node('b', 1, [node('b1', 2)])
+]);
+
+const collapsed = patchNodeState(undefined, { isCollapsed: true });
+const ids = (rows: VisibleRow[]) => rows.map(r => r.node.id);
+
+describe('visible rows', () => {
+  it('lists the nodes in reading order, skipping collapsed branches', () => {
+    expect(ids(flattenVisibleTree(tree, {}, null))).toEqual(['root', 'a', 'a1', 'a2', 'b', 'b1']);
+    expect(ids(flattenVisibleTree(tree, { a: collapsed }, null))).toEqual(['root', 'a', 'b', 'b1']);
+    expect(flattenVisibleTree(tree, {}, null)[3]).toMatchObject({ parentId: 'a', posInSet: 2, setSize: 2 });
+  });
+
+  it('keeps the rows for answers and re-lists only a toggled branch', () => {
+    const first = advanceVisibleRows(null, tree, {}, null);
+    const answered = advanceVisibleRows(first, tree, { a1: patchNodeState(undefined, { isSolved: true }) }, null);
+    expect(answered.rows).toBe(first.rows);
+    const states: Record<string, NodeState> = { ...answered.nodeStates, a: collapsed };
+    const toggled = advanceVisibleRows(answered, tree, states, null);
+    expect(ids(toggled.rows)).toEqual(ids(flattenVisibleTree(tree, states, null)));
+  });
+});
+
+describe('key moves', () => {
+  const rows = flattenVisibleTree(tree, {}, null);
+  const rowIndex = new Map(rows.map((r, i) => [r.node.id, i]));
+  const move = (key: string, from: string, expanded?: boolean) => treeKeyMove(key, rows, rowIndex, rowIndex.get(from)!, expanded);
+
+  it('moves up and down the visible rows and stops at the ends', () => {
+    expect(move('ArrowDown', 'a2')).toEqual({ type: 'focus', index: rowIndex.get('b') });
+    expect(move('ArrowUp', 'b')).toEqual({ type: 'focus', index: rowIndex.get('a2') });
+    expect(move('ArrowUp', 'root', true)).toEqual({ type: 'focus', index: 0 });
+    expect(move('ArrowDown', 'b1')).toEqual({ type: 'focus', index: rows.length - 1 });
+  });
+
+  it('jumps to the first and last rows with Home and End', () => {
+    expect(move('Home', 'b1')).toEqual({ type: 'focus', index: 0 });
+    expect(move('End', 'a')).toEqual({ type: 'focus', index: rows.length - 1 });
+  });
+
+  it('expands, collapses and walks between parent and child', () => {
+    expect(move('ArrowRight', 'a', false)).toEqual({ type: 'collapse', collapsed: false });
+    expect(move('ArrowRight', 'a', true)).toEqual({ type: 'focus', index: rowIndex.get('a1') });
+    expect(move('ArrowLeft', 'a', true)).toEqual({ type: 'collapse', collapsed: true });
+    expect(move('ArrowLeft', 'a2')).toEqual({ type: 'focus', index: rowIndex.get('a') });
+    expect(move('ArrowRight', 'a2')).toBeNull();
+    expect(move('ArrowLeft', 'root', false)).toBeNull();
+    expect(move('x', 'a')).toBeNull();
+  });
+});
+
+describe('tab moves', () => {
+  const rows = flattenVisibleTree(tree, {}, null);
+  const open = new Set(['a1', 'b1']);
+  const isOpen = (row: VisibleRow) => open.has(row.node.id);
+  const at = (id: string) => rows.findIndex(r => r.node.id === id);
+
+  it('goes to the next or previous open node', () => {
+    expect(tabTargetRow(rows, at('a1'), 1, false, isOpen)).toBe(at('b1'));
+    expect(tabTargetRow(rows, at('b1'), -1, false, isOpen)).toBe(at('a1'));
+    expect(tabTargetRow(rows, at('root'), 1, true, isOpen)).toBe(at('a1'));
+  });
+
+  it('stops at an open row\'s own input when leaving its item forwards', () => {
+    expect(tabTargetRow(rows, at('a1'), 1, true, isOpen)).toBe(at('a1'));
+    expect(tabTargetRow(rows, at('a1'), -1, true, isOpen)).toBe(-1);
+  });
+
+  it('finds nothing past the last open node', () => {
+    expect(tabTargetRow(rows, at('b1'), 1, false, isOpen)).toBe(-1);
+  });
+});
@@ -0,0 +1,157 @@
+import { NodeState, TreeNode } from '../types';
+import { changedNodeIds } from './nodeStateStore';
+
+// --- KEYBOARD NAVIGATION ---
+// The study list is virtualized, so navigation works on the flattened rows
+// rather than on the DOM; only the rows near the viewport are rendered.
+
+export interface VisibleRow {
+  node: TreeNode;
+  parentId: string | null;
+  // 1-based position among the visible siblings, for aria-posinset / aria-setsize.
+  posInSet: number;
+  setSize: number;
+}
+
+// Rows below `node`, in reading order, skipping collapsed branches and nodes a filter hides.
+const pushChildRows = (
+  rows: VisibleRow[],
+  node: TreeNode,
+  nodeStates: Record<string, NodeState>,
+  isShown: ((n: TreeNode) => boolean) | null
+) => {
+  if (nodeStates[node.id]?.isCollapsed) return;
+  const children = isShown ? node.children.filter(isShown) : node.children;
+  children.forEach((c, i) => {
+    rows.push({ node: c, parentId: node.id, posInSet: i + 1, setSize: children.length });
+    pushChildRows(rows, c, nodeStates, isShown);
+  });
+};
+
+export const flattenVisibleTree = (
+  root: TreeNode,
+  nodeStates: Record<string, NodeState>,
+  isShown: ((n: TreeNode) => boolean) | null
+): VisibleRow[] => {
+  const rows: VisibleRow[] = [];
+  if (isShown && !isShown(root)) return rows;
+  rows.push({ node: root, parentId: null, posInSet: 1, setSize: 1 });
+  pushChildRows(rows, root, nodeStates, isShown);
+  return rows;
+};
+
+/**
+ * The rows after the given nodes were collapsed or expanded: only the
+ * branches below them are re-listed, the rest of the list is kept.
+ */
+const updateVisibleRows = (
+  rows: VisibleRow[],
+  toggledIds: string[],
+  nodeStates: Record<string, NodeState>,
+  isShown: ((n: TreeNode) => boolean) | null
+): VisibleRow[] => {
+  let next = rows;
+  toggledIds.forEach(id => {
+    const index = next.findIndex(r => r.node.id === id);
+    // Not listed: it sits inside a collapsed branch, so its rows are not either.
+    if (index === -1) return;
+    const branch = new Set([id]);
+    let end = index + 1;
+    while (end < next.length && branch.has(next[end].parentId!)) branch.add(next[end++].node.id);
+    const childRows: VisibleRow[] = [];
+    pushChildRows(childRows, next[index].node, nodeStates, isShown);
+    next = [...next.slice(0, index + 1), ...childRows, ...next.slice(end)];
+  });
+  return next;
+};
+
+export interface VisibleRows {
+  root: TreeNode;
+  nodeStates: Record<string, NodeState>;
+  isShown: ((n: TreeNode) => boolean) | null;
+  rows: VisibleRow[];
+}
+
+// Past this many collapsed or expanded nodes a full listing is cheaper than splicing.
+const MAX_INCREMENTAL_TOGGLES = 64;
+
+// Rows for a new snapshot; answers leave the list as it was, collapsing re-lists only the toggled branches.
+export const advanceVisibleRows = (
+  prev: VisibleRows | null,
+  root: TreeNode,
+  nodeStates: Record<string, NodeState>,
+  isShown: ((n: TreeNode) => boolean) | null
+): VisibleRows => {
+  if (prev && prev.root === root && prev.nodeStates === nodeStates && prev.isShown === isShown) return prev;
+  if (!prev || prev.root !== root || prev.isShown !== isShown) return { root, nodeStates, isShown, rows: flattenVisibleTree(root, nodeStates, isShown) };
+  const toggled = changedNodeIds(prev.nodeStates, nodeStates)
+    .filter(id => !!prev.nodeStates[id]?.isCollapsed !== !!nodeStates[id]?.isCollapsed);
+  const rows = toggled.length === 0 ? prev.rows
+    : toggled.length > MAX_INCREMENTAL_TOGGLES ? flattenVisibleTree(root, nodeStates, isShown)
+    : updateVisibleRows(prev.rows, toggled, nodeStates, isShown);
+  return { root, nodeStates, isShown, rows };
+};
+
+// Index of the first row from `from` on (inclusive) in `direction` that passes `isOpen`, or -1.
+export const findOpenRow = (rows: VisibleRow[], from: number, direction: 1 | -1, isOpen: (row: VisibleRow) => boolean): number => {
+  for (let i = from; i >= 0 && i < rows.length; i += direction) {
+    if (isOpen(rows[i])) return i;
+  }
+  return -1;
+};
+
+// Where Tab goes from the row at `index`: the next open row, or this one when
+// leaving the row item itself forwards, since its own input comes next. -1 for none.
+export const tabTargetRow = (
+  rows: VisibleRow[],
+  index: number,
+  direction: 1 | -1,
+  fromItem: boolean,
+  isOpen: (row: VisibleRow) => boolean
+): number => findOpenRow(rows, fromItem && direction === 1 ? index : index + direction, direction, isOpen);
+
+export type TreeKeyMove =
+  | { type: 'focus'; index: number }
+  | { type: 'collapse'; collapsed: boolean };
+
+// The move an arrow, Home or End key makes from the row at `index`, or null for any other key.
+export const treeKeyMove = (
+  key: string,
+  rows: VisibleRow[],
+  rowIndex: Map<string, number>,
+  index: number,
+  expanded: boolean | undefined
+): TreeKeyMove | null => {
+  const focus = (i: number): TreeKeyMove => ({ type: 'focus', index: Math.max(0, Math.min(rows.length - 1, i)) });
+  const { parentId } = rows[index];
+  switch (key) {
+    case 'ArrowDown': return focus(index + 1);
+    case 'ArrowUp': return focus(index - 1);
+    case 'Home': return focus(0);
+    case 'End': return focus(rows.length - 1);
+    case 'ArrowRight':
+      if (expanded === undefined) return null;
+      return expanded ? focus(index + 1) : { type: 'collapse', collapsed: false };
+    case 'ArrowLeft':
+      if (expanded) return { type: 'collapse', collapsed: true };
+      return parentId ? focus(rowIndex.get(parentId) ?? index) : null;
+    default: return null;
+  }
+};
+
+const RECALL_INPUT = 'input[data-recall-input]';
+
+// The recall inputs of a rendered row; a cloze node has one per open blank.
+export const ownRecallInputs = (item: HTMLElement): HTMLInputElement[] =>
+  Array.from(item.querySelectorAll<HTMLInputElement>(RECALL_INPUT));
+
+// The star and branch-focus buttons of a rendered row.
+export const ownActionButtons = (item: HTMLElement): HTMLElement[] =>
+  Array.from(item.querySelectorAll<HTMLElement>('[data-action="star"], [data-action="focus-branch"]'));
+
+// The NodeCard holding focus: the one around the focused input, or the focused tree item's own card.
+export const activeNodeCard = (): HTMLElement | null => {
+  const active = document.activeElement as HTMLElement | null;
+  if (!active) return null;
+  return active.closest<HTMLElement>('[data-node-card]') ?? active.querySelector<HTMLElement>('[data-node-card]');
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, Session, TreeNode } from '../types';
+import { patchNodeState } from './nodeStateStore';
+import { advanceTreeStats, branchProgress, computeTreeStats } from './treeStats';
+
+const node = (id: string, level: number, children: TreeNode[] = []): TreeNode => ({ id, text: id, children, isLeaf: children.length === 0, level });
+
+const tree = node('root', 0, [
+  node('a', 1, [node('a1', 2), node('a2', 2)]),
+  node('b', 1, [node('b1', 2), node('b2', 2)])
+]);
+
+const session = (patch: Partial<Session> = {}): Session => ({
+  id: 's',
+  fileName: 's.md',
+  data: tree,
+  difficulty: DifficultyLevel.BASIC,
+  nodeStates: {},
+  lastUpdated: 1,
+  progress: 0,
+  ...patch
+});
+
+const solve = (s: Session, id: string, patch = {}): Session =>
+  ({ ...s, nodeStates: { ...s.nodeStates, [id]: patchNodeState(s.nodeStates[id], { isSolved: true, ...patch }) } });
+
+describe('tree stats', () => {
+  it('counts only the nodes the policy masks', () => {
+    // Leaves only: solving a parent earns nothing.
+    expect(computeTreeStats(solve(session(), 'a')).progress).toBe(0);
+    expect(computeTreeStats(solve(session(), 'a1')).progress).toBe(25);
+    expect(computeTreeStats(solve(session({ difficulty: DifficultyLevel.MASTER }), 'a')).progress).toBe(17);
+  });
+
+  it('gives close answers half credit and reports branch progress', () => {
+    const stats = computeTreeStats(solve(solve(session(), 'a1'), 'a2', { solvedWith: 'close' }));
+    expect(stats.progress).toBe(38);
+    expect(branchProgress(stats, tree.children[0])).toBe(75);
+    expect(branchProgress(stats, tree.children[1])).toBe(0);
+  });
+
+  it('adjusts the counts for changed nodes the same as a full count', () => {
+    let current = session({ maskingPolicy: { scope: 'leaves', starredOnly: true } });
+    let stats = computeTreeStats(current);
+    const steps: [string, object][] = [['a1', { isStarred: true }], ['b2', { isStarred: true }], ['a1', { isSolved: true }], ['b2', { isStarred: false }]];
+    steps.forEach(([id, patch]) => {
+      current = { ...current, nodeStates: { ...current.nodeStates, [id]: patchNodeState(current.nodeStates[id], patch) } };
+      stats = advanceTreeStats(stats, current);
+      const full = computeTreeStats(current, stats.asOf);
+      expect(stats.progress).toBe(full.progress);
+      expect(stats.starredCounts).toEqual(full.starredCounts);
+    });
+    expect(stats.progress).toBe(100);
+  });
+});
@@ -0,0 +1,161 @@
+import { NodeState, Session, TreeNode } from '../types';
+import { clozeCount, clozeCredit } from './cloze';
+import { maskPredicateForDeck } from './decks';
+import { maskPredicateForSession, policyForSession } from './masking';
+import { changedNodeIds } from './nodeStateStore';
+import { isDue } from './scheduler';
+
+// --- TREE STATS ---
+// Progress and starred-branch counts for one session snapshot. Node updates
+// adjust the tallies in place of a full walk, so large maps stay fast.
+
+export interface TreeStats {
+  tree: TreeNode;
+  nodeStates: Record<string, NodeState>;
+  policyKey: string;
+  isRequired: (n: TreeNode) => boolean;
+  parentIds: Map<string, string>;
+  // Cloze blank count of every required node.
+  requiredBlanks: Map<string, number>;
+  totalUnits: number;
+  earnedUnits: number;
+  // Starred nodes in each subtree, including the node itself; branches without any are left out.
+  starredCounts: Record<string, number>;
+  // Due dates are judged as of the full count, so incremental updates stay consistent with it.
+  asOf: number;
+  progress: number;
+}
+
+// The random share is seeded per session, so the session id is part of the policy.
+export const policyKeyForSession = (session: Session): string =>
+  `${session.id}:${JSON.stringify(session.deckPolicies ?? policyForSession(session))}`;
+
+// A deck's branches follow their sources' policies rather than its own.
+const maskPredicate = (session: Session): ((n: TreeNode) => boolean) =>
+  session.deckPolicies ? maskPredicateForDeck(session, session.deckPolicies) : maskPredicateForSession(session);
+
+const usesStarredOnly = (session: Session): boolean =>
+  (session.deckPolicies ? Object.values(session.deckPolicies) : [policyForSession(session)]).some(p => p.starredOnly);
+
+// Each cloze blank counts on its own; answers accepted within the typo tolerance earn half credit.
+export const nodeCredit = (blanks: number, state: NodeState | undefined, asOf: number): number => {
+  if (blanks > 0 && state?.solvedBlanks) return clozeCredit(state);
+  if (!state || (!state.isSolved && isDue(state, asOf))) return 0;
+  return Math.max(1, blanks) * (state.isSolved && state.solvedWith === 'close' ? 0.5 : 1);
+};
+
+const toPercent = (earned: number, total: number): number =>
+  Math.min(100, Math.round((earned / Math.max(1, total)) * 100));
+
+// Parent links are shared by every snapshot of the same tree.
+const parentCache = new WeakMap<TreeNode, Map<string, string>>();
+
+const parentIdsOf = (tree: TreeNode): Map<string, string> => {
+  const cached = parentCache.get(tree);
+  if (cached) return cached;
+  const parentIds = new Map<string, string>();
+  const walk = (node: TreeNode) => node.children.forEach(c => {
+    parentIds.set(c.id, node.id);
+    walk(c);
+  });
+  walk(tree);
+  parentCache.set(tree, parentIds);
+  return parentIds;
+};
+
+export const computeTreeStats = (session: Session, asOf: number = Date.now()): TreeStats => {
+  const isRequired = maskPredicate(session);
+  const requiredBlanks = new Map<string, number>();
+  const starredCounts: Record<string, number> = {};
+  let totalUnits = 0;
+  let earnedUnits = 0;
+
+  const walk = (node: TreeNode): number => {
+    const state = session.nodeStates[node.id];
+    if (isRequired(node)) {
+      const blanks = clozeCount(node.text);
+      requiredBlanks.set(node.id, blanks);
+      totalUnits += Math.max(1, blanks);
+      earnedUnits += nodeCredit(blanks, state, asOf);
+    }
+    let starred = state?.isStarred ? 1 : 0;
+    node.children.forEach(c => starred += walk(c));
+    if (starred > 0) starredCounts[node.id] = starred;
+    return starred;
+  };
+  walk(session.data);
+
+  return {
+    tree: session.data,
+    nodeStates: session.nodeStates,
+    policyKey: policyKeyForSession(session),
+    isRequired,
+    parentIds: parentIdsOf(session.data),
+    requiredBlanks,
+    totalUnits,
+    earnedUnits,
+    starredCounts,
+    asOf,
+    progress: toPercent(earnedUnits, totalUnits)
+  };
+};
+
+// Past this many changed nodes a full count is cheaper than adjusting the tallies.
+const MAX_INCREMENTAL_CHANGES = 64;
+
+/**
+ * Stats for `session`, adjusted from the previous snapshot's for the nodes
+ * whose state changed. Falls back to a full count when the tree or policy
+ * changed, or when too many nodes did.
+ */
+export const advanceTreeStats = (stats: TreeStats | null, session: Session): TreeStats => {
+  if (!stats || stats.tree !== session.data || stats.policyKey !== policyKeyForSession(session)) return computeTreeStats(session);
+  const changed = changedNodeIds(stats.nodeStates, session.nodeStates);
+  if (changed.length > MAX_INCREMENTAL_CHANGES) return computeTreeStats(session);
+  const starChanges = changed.filter(id => !!stats.nodeStates[id]?.isStarred !== !!session.nodeStates[id]?.isStarred);
+  // A starred-only policy changes which nodes are required.
+  if (starChanges.length > 0 && usesStarredOnly(session)) return computeTreeStats(session);
+
+  let { earnedUnits } = stats;
+  changed.forEach(nodeId => {
+    const blanks = stats.requiredBlanks.get(nodeId);
+    if (blanks === undefined) return;
+    earnedUnits += nodeCredit(blanks, session.nodeStates[nodeId], stats.asOf) - nodeCredit(blanks, stats.nodeStates[nodeId], stats.asOf);
+  });
+  const starredCounts = starChanges.length > 0 ? { ...stats.starredCounts } : stats.starredCounts;
+  starChanges.forEach(nodeId => {
+    const delta = session.nodeStates[nodeId]?.isStarred ? 1 : -1;
+    for (let id: string | undefined = nodeId; id !== undefined; id = stats.parentIds.get(id)) {
+      const count = (starredCounts[id] ?? 0) + delta;
+      if (count > 0) starredCounts[id] = count;
+      else delete starredCounts[id];
+    }
+  });
+
+  return {
+    ...stats,
+    nodeStates: session.nodeStates,
+    earnedUnits,
+    starredCounts,
+    progress: toPercent(earnedUnits, stats.totalUnits)
+  };
+};
+
+// Progress within one branch, for studying it on its own.
+export const branchProgress = (stats: TreeStats, branch: TreeNode): number => {
+  let totalUnits = 0;
+  let earnedUnits = 0;
+  const walk = (node: TreeNode) => {
+    const blanks = stats.requiredBlanks.get(node.id);
+    if (blanks !== undefined) {
+      totalUnits += Math.max(1, blanks);
+      earnedUnits += nodeCredit(blanks, stats.nodeStates[node.id], stats.asOf);
+    }
+    node.children.forEach(walk);
+  };
+  walk(branch);
+  return toPercent(earnedUnits, totalUnits);
+};
+
+export const statsMatchSession = (stats: TreeStats | null, session: Session): stats is TreeStats =>
+  !!stats && stats.tree === session.data && stats.nodeStates === session.nodeStates && stats.policyKey === policyKeyForSession(session);
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { TreeNode } from '../types';
+import { VisibleRow } from './treeNavigation';
+import { advanceRowLayout, rowOffsets, visibleRange } from './virtualList';
+
+const row = (id: string): VisibleRow => ({
+  node: { id, text: id, children: [], isLeaf: true, level: 1 } as TreeNode,
+  parentId: 'root',
+  posInSet: 1,
+  setSize: 1
+});
+
+const rows = ['a', 'b', 'c', 'd'].map(row);
+
+describe('row offsets', () => {
+  it('stacks row heights and ends with the total', () => {
+    expect(rowOffsets([10, 20, 30])).toEqual([0, 10, 30, 60]);
+    expect(rowOffsets([])).toEqual([0]);
+  });
+
+  it('finds the rows overlapping a band', () => {
+    const offsets = rowOffsets([10, 20, 30, 40]);
+    expect(visibleRange(offsets, 0, 5)).toEqual([0, 1]);
+    expect(visibleRange(offsets, 15, 35)).toEqual([1, 3]);
+    expect(visibleRange(offsets, 90, 500)).toEqual([3, 4]);
+    expect(visibleRange(offsets, -50, 0)).toEqual([0, 1]);
+    expect(visibleRange([0], 0, 100)).toEqual([0, 0]);
+  });
+});
+
+describe('advanceRowLayout', () => {
+  it('estimates unmeasured rows and keeps the layout while nothing changed', () => {
+    const heights = new Map([['b', 50]]);
+    const layout = advanceRowLayout(null, rows, heights, 20);
+    expect(layout.offsets).toEqual([0, 20, 70, 90, 110]);
+    expect(layout.rowIndex.get('c')).toBe(2);
+    expect(advanceRowLayout(layout, rows, heights, 20)).toBe(layout);
+  });
+
+  it('moves only the rows below a re-measured one, the same as a full pass', () => {
+    const first = advanceRowLayout(null, rows, new Map([['a', 30], ['b', 30]]), 20);
+    const heights = new Map([['a', 30], ['b', 30], ['c', 45]]);
+    const next = advanceRowLayout(first, rows, heights, 20);
+    expect(next.rowIndex).toBe(first.rowIndex);
+    expect(next.offsets.slice(0, 3)).toEqual(first.offsets.slice(0, 3));
+    expect(next.offsets).toEqual(advanceRowLayout(null, rows, heights, 20).offsets);
+  });
+
+  it('starts over when the rows change', () => {
+    const first = advanceRowLayout(null, rows, new Map(), 20);
+    const fewer = rows.slice(1);
+    const next = advanceRowLayout(first, fewer, new Map(), 20);
+    expect(next.offsets).toEqual([0, 20, 40, 60]);
+    expect(next.rowIndex.get('b')).toBe(0);
+  });
+});
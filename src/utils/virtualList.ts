@@ -0,0 +1,65 @@
+import { VisibleRow } from './treeNavigation';
+
+// --- ROW VIRTUALIZATION ---
+
+// offsets[i] is the top of row i; the last entry is the total height.
+export const rowOffsets = (heights: number[]): number[] => {
+  const offsets = new Array<number>(heights.length + 1);
+  offsets[0] = 0;
+  heights.forEach((h, i) => { offsets[i + 1] = offsets[i] + h; });
+  return offsets;
+};
+
+export interface RowLayout {
+  rows: VisibleRow[];
+  // Row positions by node id.
+  rowIndex: Map<string, number>;
+  heights: Map<string, number>;
+  offsets: number[];
+}
+
+/**
+ * Offsets for `rows`, using measured heights where known.
+ * While the rows stay the same, only those from the first re-measured one on move.
+ */
+export const advanceRowLayout = (
+  prev: RowLayout | null,
+  rows: VisibleRow[],
+  heights: Map<string, number>,
+  estimate: number
+): RowLayout => {
+  if (prev && prev.rows === rows && prev.heights === heights) return prev;
+  const heightAt = (i: number) => heights.get(rows[i].node.id) ?? estimate;
+  if (!prev || prev.rows !== rows) {
+    return { rows, rowIndex: new Map(rows.map((r, i) => [r.node.id, i])), heights, offsets: rowOffsets(rows.map((_, i) => heightAt(i))) };
+  }
+
+  const { rowIndex } = prev;
+  let from = rows.length;
+  heights.forEach((h, id) => {
+    const index = rowIndex.get(id);
+    if (index !== undefined && index < from && prev.heights.get(id) !== h) from = index;
+  });
+  const offsets = prev.offsets.slice();
+  for (let i = from; i < rows.length; i++) offsets[i + 1] = offsets[i] + heightAt(i);
+  return { rows, rowIndex, heights, offsets };
+};
+
+// First row whose bottom edge is below `y`.
+const rowAt = (offsets: number[], y: number): number => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= y) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Half-open [start, end) range of the rows overlapping the band from `top` to `bottom`.
+export const visibleRange = (offsets: number[], top: number, bottom: number): [number, number] => {
+  const count = offsets.length - 1;
+  if (count <= 0) return [0, 0];
+  return [Math.min(rowAt(offsets, Math.max(0, top)), count), Math.min(count, rowAt(offsets, bottom) + 1)];
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, NodeState, Session, TreeNode } from '../types';
+import { WorksheetOptions, buildWorksheetHtml, buildWorksheetSvg } from './worksheet';
+
+const node = (id: string, text: string, level: number, children: TreeNode[] = []): TreeNode => ({ id, text, children, isLeaf: children.length === 0, level });
+
+const starred: NodeState = { isSolved: false, isStarred: true, isCollapsed: false, hintCount: 0 };
+
+const session: Session = {
+  id: 's',
+  fileName: 's.md',
+  data: node('root', 'Learning <theories>', 0, [
+    node('b', 'Behaviourism', 1, [node('b1', 'Skinner', 2), node('b2', '{{Stimulus}} → {{Response|Reaction}}', 2)]),
+    node('c', 'Cognitivism', 1, [node('c1', 'CLT | Communicative Language Teaching', 2)])
+  ]),
+  difficulty: DifficultyLevel.BASIC,
+  nodeStates: { c1: starred },
+  lastUpdated: 1,
+  progress: 0
+};
+
+const options = (patch: Partial<WorksheetOptions> = {}): WorksheetOptions =>
+  ({ policy: { scope: 'leaves' }, layout: 'outline', starredOnly: false, answerKey: false, ...patch });
+
+const count = (html: string, pattern: RegExp) => (html.match(pattern) || []).length;
+
+describe('worksheets', () => {
+  it('numbers a blank for each masked node and cloze blank', () => {
+    const html = buildWorksheetHtml(session, options());
+    expect(count(html, /class="blank"/g)).toBe(4);
+    expect(html).toContain('4 blanks');
+    expect(html).toContain('Behaviourism');
+    expect(html).not.toContain('Skinner');
+    expect(html).toContain(' → ');
+  });
+
+  it('fills the answer key with every alternative', () => {
+    const html = buildWorksheetHtml(session, options({ answerKey: true }));
+    expect(html).toContain('<section class="answer-key">');
+    expect(html).toContain('<sup>3</sup>Response / Reaction</span>');
+    expect(html).toContain('<sup>4</sup>CLT / Communicative Language Teaching</span>');
+  });
+
+  it('keeps only starred nodes and their branches when asked', () => {
+    const html = buildWorksheetHtml(session, options({ starredOnly: true }));
+    expect(html).not.toContain('Behaviourism');
+    expect(html).toContain('Cognitivism');
+    expect(html).toContain('1 blank<');
+  });
+
+  it('escapes map text in HTML and SVG', () => {
+    expect(buildWorksheetHtml(session, options())).toContain('<title>Learning &lt;theories&gt; — worksheet</title>');
+    const svg = buildWorksheetSvg(session, options({ layout: 'diagram' }), true);
+    expect(svg.startsWith('<?xml')).toBe(true);
+    expect(svg).toContain('Learning &lt;theories&gt;');
+    expect(svg).toContain('Skinner');
+    expect(svg).not.toContain('<theories>');
+  });
+});
@@ -0,0 +1,237 @@
+import { MaskingPolicy, Session, TreeNode } from '../types';
+import { parseAlternatives, primaryAnswer } from './answers';
+import { clozeCount, parseCloze, stripCloze } from './cloze';
+import { escapeXml } from './exporters';
+import { TREE_COLUMN_WIDTH, TREE_ROW_HEIGHT, layoutTree } from './layout';
+import { createMaskPredicate } from './masking';
+
+// --- PRINTABLE WORKSHEETS ---
+// Masked nodes become numbered blank lines sized to their answer; the answer
+// key repeats the sheet with every blank filled in. Output is self-contained
+// HTML or SVG, so it prints and opens without the app.
+
+export type WorksheetLayout = 'outline' | 'diagram';
+
+export interface WorksheetOptions {
+  policy: MaskingPolicy;
+  layout: WorksheetLayout;
+  // Starred nodes and the branches leading to them.
+  starredOnly: boolean;
+  answerKey: boolean;
+}
+
+type WorksheetPart =
+  | { kind: 'text'; text: string }
+  // `size` is the blank's width in characters.
+  | { kind: 'blank'; number: number; answer: string; size: number };
+
+interface Worksheet {
+  root: TreeNode;
+  children: (n: TreeNode) => TreeNode[];
+  parts: Map<string, WorksheetPart[]>;
+  blankCount: number;
+}
+
+const MIN_BLANK_CHARS = 6;
+const MAX_BLANK_CHARS = 40;
+const WIDE_CHAR = /[ᄀ-ᇿ⺀-鿿가-힯＀-￯]/;
+
+// Hangul and CJK characters take about two character cells.
+const textWidth = (text: string): number =>
+  Array.from(text).reduce((w, ch) => w + (WIDE_CHAR.test(ch) ? 2 : 1), 0);
+
+const blankSize = (answer: string): number =>
+  Math.min(MAX_BLANK_CHARS, Math.max(MIN_BLANK_CHARS, Math.ceil(textWidth(primaryAnswer(answer)) * 1.2)));
+
+const buildWorksheet = (session: Session, options: WorksheetOptions): Worksheet => {
+  const root = session.data;
+  const isMasked = createMaskPredicate(options.policy, { root, nodeStates: session.nodeStates, seed: session.id });
+
+  const kept = new Set<string>();
+  const keepStarred = (node: TreeNode): boolean => {
+    const hasStarred = node.children.reduce((found, c) => keepStarred(c) || found, false);
+    if (!hasStarred && !session.nodeStates[node.id]?.isStarred) return false;
+    kept.add(node.id);
+    return true;
+  };
+  if (options.starredOnly) keepStarred(root);
+  const children = (n: TreeNode) => (options.starredOnly ? n.children.filter(c => kept.has(c.id)) : n.children);
+
+  let blankCount = 0;
+  const blank = (answer: string): WorksheetPart => ({
+    kind: 'blank',
+    number: ++blankCount,
+    answer: parseAlternatives(answer).join(' / '),
+    size: blankSize(answer)
+  });
+  const nodeParts = (node: TreeNode): WorksheetPart[] => {
+    if (!isMasked(node)) return [{ kind: 'text', text: stripCloze(node.text) }];
+    if (clozeCount(node.text) === 0) return [blank(node.text)];
+    return parseCloze(node.text).map(s => (s.kind === 'text' ? s : blank(s.answer)));
+  };
+
+  const parts = new Map<string, WorksheetPart[]>();
+  const walk = (node: TreeNode) => {
+    parts.set(node.id, nodeParts(node));
+    children(node).forEach(walk);
+  };
+  walk(root);
+  return { root, children, parts, blankCount };
+};
+
+// --- OUTLINE ---
+
+const partHtml = (part: WorksheetPart, reveal: boolean): string => {
+  if (part.kind === 'text') return escapeXml(part.text);
+  if (reveal) return `<span class="answer"><sup>${part.number}</sup>${escapeXml(part.answer)}</span>`;
+  return `<span class="blank" style="width: ${part.size}ch"><sup>${part.number}</sup></span>`;
+};
+
+const lineHtml = (ws: Worksheet, node: TreeNode, reveal: boolean): string =>
+  (ws.parts.get(node.id) ?? []).map(p => partHtml(p, reveal)).join('');
+
+const outlineHtml = (ws: Worksheet, reveal: boolean): string => {
+  const item = (node: TreeNode, depth: number): string => {
+    const children = ws.children(node);
+    const list = children.length > 0 ? `<ul>${children.map(c => item(c, depth + 1)).join('')}</ul>` : '';
+    return `<li${depth === 1 ? ' class="branch"' : ''}><div class="line">${lineHtml(ws, node, reveal)}</div>${list}</li>`;
+  };
+  return `<ul class="outline">${ws.children(ws.root).map(c => item(c, 1)).join('')}</ul>`;
+};
+
+// --- DIAGRAM ---
+
+const BOX_WIDTH = TREE_COLUMN_WIDTH - 60;
+const BOX_HEIGHT = TREE_ROW_HEIGHT - 12;
+const FONT_SIZE = 13;
+const LINE_HEIGHT = 16;
+const LINE_CHARS = 40;
+const MAX_LINES = 3;
+const PADDING = 24;
+
+const SVG_STYLE = [
+  '.edge { fill: none; stroke: #cbd5e1; stroke-width: 1.5; }',
+  '.box { fill: #fff; stroke: #94a3b8; }',
+  `.label { font: ${FONT_SIZE}px system-ui, sans-serif; fill: #0f172a; }`,
+  '.revealed { fill: #4338ca; font-weight: 600; }'
+].join(' ');
+
+// Blanks print as an underscore run the length of the answer, numbered like the outline.
+const svgLabel = (parts: WorksheetPart[], reveal: boolean): string =>
+  parts.map(p => (p.kind === 'text' ? p.text : reveal ? p.answer : `(${p.number})${'_'.repeat(p.size)}`)).join('');
+
+const wrapLabel = (text: string): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(w => w.length > 0).forEach(word => {
+    const next = line ? `${line} ${word}` : word;
+    if (line && textWidth(next) > LINE_CHARS) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  });
+  if (line) lines.push(line);
+  if (lines.length <= MAX_LINES) return lines;
+  return [...lines.slice(0, MAX_LINES - 1), `${lines[MAX_LINES - 1]}…`];
+};
+
+const diagramSvg = (ws: Worksheet, root: TreeNode, reveal: boolean, standalone: boolean): string => {
+  const { nodes, bounds } = layoutTree(root, ws.children, 'tree');
+  const left = bounds.minX - PADDING;
+  const top = bounds.minY - BOX_HEIGHT / 2 - PADDING;
+  const width = bounds.maxX - bounds.minX + BOX_WIDTH + PADDING * 2;
+  const height = bounds.maxY - bounds.minY + BOX_HEIGHT + PADDING * 2;
+  const positions = new Map(nodes.map(n => [n.node.id, n]));
+
+  const edges = nodes.flatMap(n => {
+    const parent = n.parentId !== null ? positions.get(n.parentId) : undefined;
+    if (!parent) return [];
+    const startX = parent.x + BOX_WIDTH;
+    const midX = (startX + n.x) / 2;
+    return [`<path class="edge" d="M ${startX} ${parent.y} C ${midX} ${parent.y}, ${midX} ${n.y}, ${n.x} ${n.y}"/>`];
+  });
+
+  const boxes = nodes.map(n => {
+    const parts = ws.parts.get(n.node.id) ?? [];
+    const revealed = reveal && parts.some(p => p.kind === 'blank');
+    const lines = wrapLabel(svgLabel(parts, reveal));
+    const firstY = Math.round(n.y - ((lines.length - 1) * LINE_HEIGHT) / 2 + FONT_SIZE / 3);
+    const text = lines
+      .map((l, i) => `<tspan x="${n.x + 12}" y="${firstY + i * LINE_HEIGHT}">${escapeXml(l)}</tspan>`)
+      .join('');
+    return [
+      `<rect class="box" x="${n.x}" y="${n.y - BOX_HEIGHT / 2}" width="${BOX_WIDTH}" height="${BOX_HEIGHT}" rx="10"/>`,
+      `<text class="label${revealed ? ' revealed' : ''}">${text}</text>`
+    ].join('');
+  });
+
+  const namespace = standalone ? ' xmlns="http://www.w3.org/2000/svg"' : '';
+  const size = standalone ? ` width="${width}" height="${height}"` : '';
+  return [
+    `<svg${namespace} viewBox="${left} ${top} ${width} ${height}"${size} role="img">`,
+    `<style>${SVG_STYLE}</style>`,
+    ...edges,
+    ...boxes,
+    '</svg>'
+  ].join('\n');
+};
+
+// --- DOCUMENTS ---
+
+const WORKSHEET_CSS = `
+@page { margin: 16mm; }
+* { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+body { font: 12pt/1.6 system-ui, sans-serif; color: #0f172a; max-width: 820px; margin: 0 auto; padding: 32px; }
+h1 { font-size: 20pt; margin: 0 0 4pt; }
+.meta { display: flex; gap: 24pt; margin: 0 0 18pt; color: #64748b; font-size: 10pt; }
+ul { list-style: none; margin: 0; padding-left: 16pt; border-left: 1px solid #e2e8f0; }
+ul.outline { padding-left: 0; border-left: 0; }
+li { margin: 3pt 0; }
+li.branch { margin-top: 12pt; }
+.line { break-inside: avoid; }
+li.branch > .line { font-weight: 700; break-after: avoid; }
+sup { font-size: 7pt; font-weight: 700; color: #64748b; margin-right: 2pt; }
+.blank { display: inline-block; height: 1.1em; border-bottom: 1px solid #0f172a; vertical-align: bottom; margin: 0 2pt; }
+.answer { color: #4338ca; font-weight: 600; border-bottom: 1px solid #a5b4fc; margin: 0 2pt; }
+.diagram { break-inside: avoid; margin: 0 0 18pt; }
+.diagram svg { display: block; width: 100%; height: auto; }
+.answer-key { break-before: page; }
+@media print { body { max-width: none; padding: 0; } }
+`;
+
+// One diagram per top-level branch keeps each on its own page where it fits.
+const sheetBody = (ws: Worksheet, layout: WorksheetLayout, reveal: boolean): string =>
+  layout === 'outline'
+    ? outlineHtml(ws, reveal)
+    : ws.children(ws.root).map(b => `<section class="diagram">${diagramSvg(ws, b, reveal, false)}</section>`).join('\n');
+
+export const buildWorksheetHtml = (session: Session, options: WorksheetOptions): string => {
+  const ws = buildWorksheet(session, options);
+  const title = lineHtml(ws, ws.root, false);
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeXml(stripCloze(ws.root.text))} — worksheet</title>`,
+    `<style>${WORKSHEET_CSS}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    `<h1>${title}</h1>`,
+    `<p class="meta"><span>Name ____________________</span><span>Date ____________</span><span>${ws.blankCount} ${ws.blankCount === 1 ? 'blank' : 'blanks'}</span></p>`,
+    sheetBody(ws, options.layout, false),
+    '</main>',
+    options.answerKey ? `<section class="answer-key">\n<h1>Answer key: ${title}</h1>\n${sheetBody(ws, options.layout, true)}\n</section>` : '',
+    '</body>',
+    '</html>'
+  ].join('\n') + '\n';
+};
+
+// The whole map as one diagram; `reveal` gives the answer key.
+export const buildWorksheetSvg = (session: Session, options: WorksheetOptions, reveal: boolean): string => {
+  const ws = buildWorksheet(session, options);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${diagramSvg(ws, ws.root, reveal, true)}\n`;
+};